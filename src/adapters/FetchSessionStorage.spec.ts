@@ -0,0 +1,177 @@
+import sessionEncryption from '../core/encryption/ironWebcryptoEncryption.js';
+import type { AuthKitConfig } from '../core/config/types.js';
+import { AuthService } from '../service/AuthService.js';
+import { FetchSessionStorage } from './FetchSessionStorage.js';
+
+const config: AuthKitConfig = {
+  clientId: 'test-client-id',
+  apiKey: 'test-api-key',
+  redirectUri: 'https://app.example.com/callback',
+  cookiePassword: 'this-is-a-test-password-that-is-32-characters-long!',
+  cookieName: 'wos-session',
+  apiHttps: true,
+  cookieMaxAge: 60 * 60,
+};
+
+function requestWithCookies(cookie?: string): Request {
+  return new Request('https://app.example.com/', {
+    headers: cookie ? { cookie } : {},
+  });
+}
+
+describe('FetchSessionStorage', () => {
+  let storage: FetchSessionStorage;
+
+  beforeEach(() => {
+    storage = new FetchSessionStorage(config);
+  });
+
+  describe('getCookie()', () => {
+    it('returns null when the request has no cookie header', async () => {
+      expect(await storage.getCookie(requestWithCookies(), 'a')).toBeNull();
+    });
+
+    it('returns the named cookie, URL-decoded', async () => {
+      const request = requestWithCookies('a=1; wos-session=x%2By%3D; b=2');
+
+      expect(await storage.getCookie(request, 'wos-session')).toBe('x+y=');
+    });
+
+    it('keeps values containing "="', async () => {
+      const request = requestWithCookies('a=b=c');
+
+      expect(await storage.getCookie(request, 'a')).toBe('b=c');
+    });
+
+    it('does not match on name prefixes', async () => {
+      const request = requestWithCookies('wos-session-old=1');
+
+      expect(await storage.getCookie(request, 'wos-session')).toBeNull();
+    });
+
+    it('returns the raw value when percent-decoding fails', async () => {
+      const request = requestWithCookies('a=%E0%A4%A');
+
+      expect(await storage.getCookie(request, 'a')).toBe('%E0%A4%A');
+    });
+  });
+
+  describe('getAuthorizationHeader()', () => {
+    it('returns the Authorization header, or null when absent', async () => {
+      const request = new Request('https://app.example.com/', {
+        headers: { authorization: 'Bearer token' },
+      });
+
+      expect(await storage.getAuthorizationHeader(request)).toBe(
+        'Bearer token',
+      );
+      expect(
+        await storage.getAuthorizationHeader(requestWithCookies()),
+      ).toBeNull();
+    });
+  });
+
+  describe('applyHeaders via setCookie()', () => {
+    it('returns a headers bag when no response is passed', async () => {
+      const result = await storage.setCookie(undefined, 'a', 'b', {});
+
+      expect(result.response).toBeUndefined();
+      expect(result.headers?.['Set-Cookie']).toBe('a=b');
+    });
+
+    it('appends Set-Cookie to a mutable response in place', async () => {
+      const response = new Response('body');
+
+      const result = await storage.setCookie(response, 'a', 'b', {});
+
+      expect(result.response).toBe(response);
+      expect(response.headers.getSetCookie()).toEqual(['a=b']);
+    });
+
+    it('clones immutable responses', async () => {
+      const response = Response.redirect('https://app.example.com/next', 302);
+
+      const result = await storage.setCookie(response, 'a', 'b', {});
+
+      expect(result.response).not.toBe(response);
+      expect(result.response?.status).toBe(302);
+      expect(result.response?.headers.get('location')).toBe(
+        'https://app.example.com/next',
+      );
+      expect(result.response?.headers.getSetCookie()).toEqual(['a=b']);
+    });
+
+    it('appends each chunk of a chunked session as its own Set-Cookie', async () => {
+      const response = new Response(null);
+
+      await storage.saveSession(response, 'x'.repeat(5_000));
+
+      const cookies = response.headers.getSetCookie();
+      expect(cookies.length).toBeGreaterThan(1);
+      expect(cookies[0]).toMatch(/^wos-session\.0=/);
+    });
+  });
+
+  it('round-trips a session through Set-Cookie and Cookie headers', async () => {
+    const response = new Response(null);
+    await storage.saveSession(response, 'sealed+session=');
+
+    const cookie = response.headers
+      .getSetCookie()
+      .map(c => c.split(';')[0])
+      .join('; ');
+
+    expect(await storage.getSession(requestWithCookies(cookie))).toBe(
+      'sealed+session=',
+    );
+  });
+
+  it('writes both session and verifier-clear cookies in handleCallback', async () => {
+    const client = {
+      userManagement: {
+        getJwksUrl: () => 'https://api.workos.com/sso/jwks/test-client-id',
+        getAuthorizationUrl: (opts: any) =>
+          `https://api.workos.com/sso/authorize?state=${opts.state}`,
+        authenticateWithCode: async () => ({
+          accessToken: 'access',
+          refreshToken: 'refresh',
+          user: { id: 'user_123' },
+          impersonator: undefined,
+        }),
+      },
+      pkce: {
+        generate: async () => ({
+          codeVerifier: 'verifier',
+          codeChallenge: 'challenge',
+          codeChallengeMethod: 'S256',
+        }),
+      },
+    };
+    const service = new AuthService(
+      config,
+      storage,
+      client as any,
+      sessionEncryption,
+    );
+
+    const signIn = await service.createSignIn(new Response(null));
+    const verifierCookie = signIn
+      .response!.headers.getSetCookie()[0]!
+      .split(';')[0]!;
+    const state = new URL(signIn.url).searchParams.get('state')!;
+
+    const result = await service.handleCallback(
+      requestWithCookies(verifierCookie),
+      new Response(null, { status: 302 }),
+      { code: 'code', state },
+    );
+
+    // Drop the expired session chunk cookies saveSession also emits.
+    const cookies = result
+      .response!.headers.getSetCookie()
+      .filter(c => !/^wos-session\.\d=;/.test(c));
+    expect(cookies).toHaveLength(2);
+    expect(cookies[0]).toMatch(/^wos-session=/);
+    expect(cookies[1]).toMatch(/^wos-auth-verifier-[0-9a-f]{8}=;/);
+  });
+});
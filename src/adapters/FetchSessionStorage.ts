@@ -0,0 +1,69 @@
+import { CookieSessionStorage } from '../core/session/CookieSessionStorage.js';
+import { getCookieFromHeader } from '../core/session/parseCookieHeader.js';
+import type { HeadersBag } from '../core/session/types.js';
+
+/**
+ * Append every entry of a `HeadersBag` to `target`. `Set-Cookie` values are
+ * appended one header per cookie; other keys replace any existing value.
+ *
+ * @throws TypeError if `target` is immutable (e.g. a `fetch()` response or
+ *   `Response.redirect()`)
+ */
+function applyHeadersBag(target: Headers, headers: HeadersBag): void {
+  for (const [key, value] of Object.entries(headers)) {
+    if (key.toLowerCase() === 'set-cookie') {
+      for (const v of Array.isArray(value) ? value : [value]) {
+        target.append(key, v);
+      }
+    } else {
+      target.set(key, Array.isArray(value) ? value.join(', ') : value);
+    }
+  }
+}
+
+/**
+ * Session storage for the web-standard Fetch API `Request`/`Response`.
+ *
+ * Works unmodified in any runtime built on Fetch primitives — Hono, Remix,
+ * SvelteKit, Cloudflare Workers, Deno, Bun, Next.js route handlers.
+ *
+ * `Set-Cookie` headers are appended to the passed response in place. When
+ * the response's headers are immutable (responses from `fetch()` and
+ * `Response.redirect()`), the response is cloned and the clone is returned
+ * instead — always use the `response` from the result, never the original.
+ * When no response is passed, headers come back as a `HeadersBag`.
+ */
+export class FetchSessionStorage extends CookieSessionStorage<
+  Request,
+  Response
+> {
+  async getCookie(request: Request, name: string): Promise<string | null> {
+    return getCookieFromHeader(request.headers.get('cookie'), name);
+  }
+
+  async getAuthorizationHeader(request: Request): Promise<string | null> {
+    return request.headers.get('authorization');
+  }
+
+  protected override async applyHeaders(
+    response: Response | undefined,
+    headers: HeadersBag,
+  ): Promise<{ response: Response } | void> {
+    if (!response) return;
+
+    try {
+      applyHeadersBag(response.headers, headers);
+      return { response };
+    } catch (error) {
+      if (!(error instanceof TypeError)) throw error;
+    }
+
+    const cloned = new Response(response.body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(response.headers),
+    });
+    applyHeadersBag(cloned.headers, headers);
+    return { response: cloned };
+  }
+}
@@ -0,0 +1,150 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { Socket } from 'node:net';
+import sessionEncryption from '../core/encryption/ironWebcryptoEncryption.js';
+import type { AuthKitConfig } from '../core/config/types.js';
+import { AuthService } from '../service/AuthService.js';
+import { NodeHttpSessionStorage } from './NodeHttpSessionStorage.js';
+
+const config: AuthKitConfig = {
+  clientId: 'test-client-id',
+  apiKey: 'test-api-key',
+  redirectUri: 'https://app.example.com/callback',
+  cookiePassword: 'this-is-a-test-password-that-is-32-characters-long!',
+  cookieName: 'wos-session',
+  apiHttps: true,
+  cookieMaxAge: 60 * 60,
+};
+
+function makeRequest(cookie?: string): IncomingMessage {
+  const request = new IncomingMessage(new Socket());
+  if (cookie) request.headers.cookie = cookie;
+  return request;
+}
+
+function makeResponse(): ServerResponse {
+  return new ServerResponse(makeRequest());
+}
+
+describe('NodeHttpSessionStorage', () => {
+  let storage: NodeHttpSessionStorage;
+
+  beforeEach(() => {
+    storage = new NodeHttpSessionStorage(config);
+  });
+
+  describe('getCookie()', () => {
+    it('returns null when the request has no cookie header', async () => {
+      expect(await storage.getCookie(makeRequest(), 'a')).toBeNull();
+    });
+
+    it('returns the named cookie, URL-decoded', async () => {
+      const request = makeRequest('a=1; wos-session=x%2By%3D');
+
+      expect(await storage.getCookie(request, 'wos-session')).toBe('x+y=');
+    });
+  });
+
+  describe('getAuthorizationHeader()', () => {
+    it('returns the Authorization header, or null when absent', async () => {
+      const request = makeRequest();
+      expect(await storage.getAuthorizationHeader(request)).toBeNull();
+
+      request.headers.authorization = 'Bearer token';
+      expect(await storage.getAuthorizationHeader(request)).toBe(
+        'Bearer token',
+      );
+    });
+  });
+
+  describe('applyHeaders via setCookie()', () => {
+    it('returns a headers bag when no response is passed', async () => {
+      const result = await storage.setCookie(undefined, 'a', 'b', {});
+
+      expect(result.response).toBeUndefined();
+      expect(result.headers?.['Set-Cookie']).toBe('a=b');
+    });
+
+    it('sets Set-Cookie on the response', async () => {
+      const response = makeResponse();
+
+      const result = await storage.setCookie(response, 'a', 'b', {});
+
+      expect(result.response).toBe(response);
+      expect(response.getHeader('set-cookie')).toEqual(['a=b']);
+    });
+
+    it('preserves a string Set-Cookie set by other middleware', async () => {
+      const response = makeResponse();
+      response.setHeader('Set-Cookie', 'other=1');
+
+      await storage.setCookie(response, 'a', 'b', {});
+
+      expect(response.getHeader('set-cookie')).toEqual(['other=1', 'a=b']);
+    });
+
+    it('preserves an array Set-Cookie set by other middleware', async () => {
+      const response = makeResponse();
+      response.setHeader('Set-Cookie', ['one=1', 'two=2']);
+
+      await storage.setCookie(response, 'a', 'b', {});
+
+      expect(response.getHeader('set-cookie')).toEqual([
+        'one=1',
+        'two=2',
+        'a=b',
+      ]);
+    });
+  });
+
+  it('writes both session and verifier-clear cookies in handleCallback', async () => {
+    const client = {
+      userManagement: {
+        getJwksUrl: () => 'https://api.workos.com/sso/jwks/test-client-id',
+        getAuthorizationUrl: (opts: any) =>
+          `https://api.workos.com/sso/authorize?state=${opts.state}`,
+        authenticateWithCode: async () => ({
+          accessToken: 'access',
+          refreshToken: 'refresh',
+          user: { id: 'user_123' },
+          impersonator: undefined,
+        }),
+      },
+      pkce: {
+        generate: async () => ({
+          codeVerifier: 'verifier',
+          codeChallenge: 'challenge',
+          codeChallengeMethod: 'S256',
+        }),
+      },
+    };
+    const service = new AuthService(
+      config,
+      storage,
+      client as any,
+      sessionEncryption,
+    );
+
+    const signInResponse = makeResponse();
+    const signIn = await service.createSignIn(signInResponse);
+    const [verifierCookie] = signInResponse.getHeader('set-cookie') as string[];
+    const state = new URL(signIn.url).searchParams.get('state')!;
+
+    const callbackResponse = makeResponse();
+    callbackResponse.setHeader('Set-Cookie', 'from-middleware=1');
+    const result = await service.handleCallback(
+      makeRequest(verifierCookie!.split(';')[0]),
+      callbackResponse,
+      { code: 'code', state },
+    );
+
+    expect(result.response).toBe(callbackResponse);
+    // Drop the expired session chunk cookies saveSession also emits.
+    const cookies = (
+      callbackResponse.getHeader('set-cookie') as string[]
+    ).filter(c => !/^wos-session\.\d=;/.test(c));
+    expect(cookies).toHaveLength(3);
+    expect(cookies[0]).toBe('from-middleware=1');
+    expect(cookies[1]).toMatch(/^wos-session=/);
+    expect(cookies[2]).toMatch(/^wos-auth-verifier-[0-9a-f]{8}=;/);
+  });
+});
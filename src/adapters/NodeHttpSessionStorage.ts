@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { CookieSessionStorage } from '../core/session/CookieSessionStorage.js';
+import { getCookieFromHeader } from '../core/session/parseCookieHeader.js';
+import type { HeadersBag } from '../core/session/types.js';
+
+/**
+ * Session storage for Node's `IncomingMessage`/`ServerResponse` — plain
+ * `node:http`, Express, Connect, and Fastify in compatibility mode.
+ *
+ * `Set-Cookie` values are merged into whatever the response already carries,
+ * so cookies set by other middleware (or by an earlier call in the same
+ * request, as `handleCallback` does with the session and verifier-clear
+ * cookies) are preserved. Headers must not have been sent yet.
+ *
+ * When no response is passed, headers come back as a `HeadersBag`.
+ */
+export class NodeHttpSessionStorage extends CookieSessionStorage<
+  IncomingMessage,
+  ServerResponse
+> {
+  async getCookie(
+    request: IncomingMessage,
+    name: string,
+  ): Promise<string | null> {
+    return getCookieFromHeader(request.headers.cookie, name);
+  }
+
+  async getAuthorizationHeader(
+    request: IncomingMessage,
+  ): Promise<string | null> {
+    return request.headers.authorization ?? null;
+  }
+
+  protected override async applyHeaders(
+    response: ServerResponse | undefined,
+    headers: HeadersBag,
+  ): Promise<{ response: ServerResponse } | void> {
+    if (!response) return;
+
+    for (const [key, value] of Object.entries(headers)) {
+      if (key.toLowerCase() !== 'set-cookie') {
+        response.setHeader(key, value);
+        continue;
+      }
+      const existing = response.getHeader('set-cookie');
+      const merged = [
+        ...(existing == null
+          ? []
+          : Array.isArray(existing)
+            ? existing
+            : [String(existing)]),
+        ...(Array.isArray(value) ? value : [value]),
+      ];
+      response.setHeader('Set-Cookie', merged);
+    }
+    return { response };
+  }
+}
@@ -1,6 +1,24 @@
 import { RateLimitExceededException } from '@workos-inc/node';
+import {
+  SignJWT,
+  createLocalJWKSet,
+  decodeJwt,
+  exportJWK,
+  generateKeyPair,
+} from 'jose';
 import { AuthKitCore } from './AuthKitCore.js';
-import { SessionEncryptionError, TokenRefreshError } from './errors.js';
+import { getCookieKeyring } from './encryption/cookiePasswords.js';
+import sessionEncryption from './encryption/ironWebcryptoEncryption.js';
+import jweEncryption from './encryption/jweEncryption.js';
+import {
+  SessionEncryptionError,
+  TokenRefreshError,
+  TokenValidationError,
+} from './errors.js';
+import { InMemoryMetrics } from './metrics/InMemoryMetrics.js';
+import { AuthMetric } from './metrics/metrics.js';
+import { sealState } from './pkce/state.js';
+import { MemoryRefreshCoordinator } from './refresh/MemoryRefreshCoordinator.js';
 
 const mockConfig = {
   cookiePassword: 'test-password-that-is-32-chars-long!!',
@@ -49,6 +67,64 @@ const mockEncryption = {
 const newJwt =
   'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJ1c2VyXzEyMyIsInNpZCI6InNlc3Npb25fbmV3IiwiZXhwIjozMDAwMDAwMDAwfQ.sig';
 
+// Isolates in-process dedupe from the grace-window cache, whose async key
+// hashing would otherwise race the fake timers these tests advance.
+const inflightOnlyConfig = { ...mockConfig, refreshGraceTtl: 0 };
+
+function makeExpiringJwt(expiresIn: number) {
+  const exp = Math.floor(Date.now() / 1000) + expiresIn;
+  return `eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.${btoa(JSON.stringify({ sid: 'session_1', org_id: 'org_abc', exp }))}.sig`;
+}
+
+function makeLogger() {
+  return { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() };
+}
+
+function makeTracer() {
+  const spans: {
+    name: string;
+    attributes: Record<string, unknown>;
+    ended: boolean;
+  }[] = [];
+  const tracer = {
+    startActiveSpan: (name: string, fn: (span: unknown) => unknown) => {
+      const span = {
+        name,
+        attributes: {} as Record<string, unknown>,
+        ended: false,
+      };
+      spans.push(span);
+      return fn({
+        setAttribute: (key: string, value: unknown) => {
+          span.attributes[key] = value;
+        },
+        recordException: () => {},
+        setStatus: () => {},
+        end: () => {
+          span.ended = true;
+        },
+      });
+    },
+  };
+  const named = (name: string) => spans.filter(span => span.name === name);
+  return { tracer: tracer as any, named };
+}
+
+/**
+ * The test tokens aren't signed with a real key. Report refreshed ones
+ * (`newJwt`) as verified so refresh paths run to completion.
+ */
+function trustRefreshedTokens(testCore: AuthKitCore) {
+  const verify = testCore.verifyTokenDetailed.bind(testCore);
+  return vi
+    .spyOn(testCore, 'verifyTokenDetailed')
+    .mockImplementation(async token =>
+      token === newJwt
+        ? { status: 'valid', claims: decodeJwt(token) as any }
+        : verify(token),
+    );
+}
+
 function makeExpiredSession() {
   return {
     accessToken: 'expired-jwt',
@@ -203,6 +279,205 @@ describe('AuthKitCore', () => {
     });
   });
 
+  describe('isSessionTimedOut()', () => {
+    const now = Math.floor(Date.now() / 1000);
+
+    function makeCore(config: Record<string, unknown>) {
+      return new AuthKitCore(
+        { ...mockConfig, ...config } as any,
+        mockClient as any,
+        mockEncryption as any,
+      );
+    }
+
+    function makeSession(createdAt?: number, lastActiveAt?: number) {
+      return { ...makeExpiredSession(), createdAt, lastActiveAt };
+    }
+
+    it('returns false when no limits are configured', () => {
+      expect(core.isSessionTimedOut(makeSession(0, 0))).toBe(false);
+    });
+
+    it('returns true once the idle timeout has elapsed', () => {
+      const testCore = makeCore({ sessionIdleTimeout: 600 });
+
+      expect(
+        testCore.isSessionTimedOut(makeSession(now - 3600, now - 601)),
+      ).toBe(true);
+      expect(
+        testCore.isSessionTimedOut(makeSession(now - 3600, now - 60)),
+      ).toBe(false);
+    });
+
+    it('falls back to createdAt when lastActiveAt is missing', () => {
+      const testCore = makeCore({ sessionIdleTimeout: 600 });
+
+      expect(testCore.isSessionTimedOut(makeSession(now - 601))).toBe(true);
+    });
+
+    it('returns true past the absolute lifetime even when active', () => {
+      const testCore = makeCore({
+        sessionIdleTimeout: 600,
+        sessionMaxLifetime: 3600,
+      });
+
+      expect(testCore.isSessionTimedOut(makeSession(now - 3601, now))).toBe(
+        true,
+      );
+      expect(testCore.isSessionTimedOut(makeSession(now - 3000, now))).toBe(
+        false,
+      );
+    });
+
+    it('never times out sessions without timestamps', () => {
+      const testCore = makeCore({
+        sessionIdleTimeout: 1,
+        sessionMaxLifetime: 1,
+      });
+
+      expect(testCore.isSessionTimedOut(makeSession())).toBe(false);
+    });
+  });
+
+  describe('touchSession()', () => {
+    const now = Math.floor(Date.now() / 1000);
+    const idleCore = new AuthKitCore(
+      { ...mockConfig, sessionIdleTimeout: 600 } as any,
+      mockClient as any,
+      mockEncryption as any,
+    );
+
+    it('stamps lastActiveAt once a quarter of the idle timeout has passed', () => {
+      const session = { ...makeExpiredSession(), lastActiveAt: now - 150 };
+
+      const touched = idleCore.touchSession(session);
+
+      expect(touched).toEqual({ ...session, lastActiveAt: expect.any(Number) });
+      expect(touched!.lastActiveAt).toBeGreaterThanOrEqual(now);
+    });
+
+    it('leaves recently stamped sessions alone', () => {
+      expect(
+        idleCore.touchSession({ ...makeExpiredSession(), lastActiveAt: now }),
+      ).toBeNull();
+    });
+
+    it('does nothing without an idle timeout or timestamps', () => {
+      expect(
+        core.touchSession({ ...makeExpiredSession(), lastActiveAt: 0 }),
+      ).toBeNull();
+      expect(idleCore.touchSession(makeExpiredSession())).toBeNull();
+    });
+  });
+
+  describe('verifyTokenDetailed()', () => {
+    it('classifies malformed tokens', async () => {
+      const result = await core.verifyTokenDetailed('invalid-token');
+
+      expect(result.status).toBe('malformed');
+    });
+
+    it('applies the configured issuer, audience and clockTolerance', async () => {
+      const { publicKey, privateKey } = await generateKeyPair('RS256');
+      const jwks = createLocalJWKSet({
+        keys: [{ ...(await exportJWK(publicKey)), kid: 'key_1' }],
+      });
+      const token = await new SignJWT({ sid: 'session_1' })
+        .setProtectedHeader({ alg: 'RS256', kid: 'key_1' })
+        .setIssuer('https://api.workos.com/user_management/client_a')
+        .setAudience('client_a')
+        .setExpirationTime(Math.floor(Date.now() / 1000) - 30)
+        .sign(privateKey);
+      const makeVerifyingCore = (config: Record<string, unknown>) => {
+        const testCore = new AuthKitCore(
+          { ...mockConfig, ...config } as any,
+          mockClient as any,
+          mockEncryption as any,
+        );
+        (testCore as any).getPublicKey = () => jwks;
+        return testCore;
+      };
+      const claims = {
+        issuer: 'https://api.workos.com/user_management/client_a',
+        audience: 'client_a',
+        clockTolerance: 60,
+      };
+
+      const matching = makeVerifyingCore(claims);
+      const otherIssuer = makeVerifyingCore({
+        ...claims,
+        issuer: 'https://api.workos.com/user_management/client_b',
+      });
+      const otherAudience = makeVerifyingCore({
+        ...claims,
+        audience: 'client_b',
+      });
+
+      expect((await matching.verifyTokenDetailed(token)).status).toBe('valid');
+      expect((await otherIssuer.verifyTokenDetailed(token)).status).toBe(
+        'invalid_claims',
+      );
+      expect((await otherAudience.verifyTokenDetailed(token)).status).toBe(
+        'invalid_claims',
+      );
+    });
+
+    it('classifies tokens with a non-WorkOS algorithm as invalid_signature', async () => {
+      const result = await core.verifyTokenDetailed(newJwt);
+
+      expect(result.status).toBe('invalid_signature');
+    });
+  });
+
+  describe('verifyBearerToken()', () => {
+    it('returns the claims and loads the user', async () => {
+      const userLoader = { getUser: vi.fn(async () => mockUser as any) };
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        mockEncryption as any,
+        { userLoader },
+      );
+      const claims = { sid: 'session_1', sub: 'user_123' };
+      vi.spyOn(testCore, 'verifyTokenDetailed').mockResolvedValue({
+        status: 'valid',
+        claims,
+      });
+
+      const result = await testCore.verifyBearerToken('bearer-token');
+
+      expect(result).toEqual({ claims, user: mockUser });
+      expect(userLoader.getUser).toHaveBeenCalledWith('user_123');
+    });
+
+    it('rejects invalid tokens without refreshing', async () => {
+      const refreshSpy = vi.spyOn(core, 'refreshTokens');
+      vi.spyOn(core, 'verifyTokenDetailed').mockResolvedValue({
+        status: 'expired',
+        error: new Error('exp claim timestamp check failed'),
+      });
+
+      await expect(core.verifyBearerToken('bearer-token')).rejects.toThrow(
+        expect.objectContaining({
+          name: 'AccessTokenError',
+          reason: 'expired',
+        }),
+      );
+      expect(refreshSpy).not.toHaveBeenCalled();
+    });
+
+    it('rejects tokens without a subject', async () => {
+      vi.spyOn(core, 'verifyTokenDetailed').mockResolvedValue({
+        status: 'valid',
+        claims: { sid: 'session_1' },
+      });
+
+      await expect(core.verifyBearerToken('bearer-token')).rejects.toThrow(
+        expect.objectContaining({ reason: 'malformed' }),
+      );
+    });
+  });
+
   describe('verifyToken()', () => {
     it('returns false for invalid tokens', async () => {
       const result = await core.verifyToken('invalid-token');
@@ -280,6 +555,265 @@ describe('AuthKitCore', () => {
         SessionEncryptionError,
       );
     });
+
+    it('reads iron sessions with the JWE encryption and flags them stale', async () => {
+      const session = {
+        accessToken: 'a',
+        refreshToken: 'r',
+        user: mockUser,
+      };
+      const ironCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const jweCore = new AuthKitCore(
+        {
+          ...mockConfig,
+          cookiePasswords: [
+            { id: '2', password: 'a-newer-test-password-that-is-32-chars' },
+            { id: '1', password: mockConfig.cookiePassword },
+          ],
+        } as any,
+        mockClient as any,
+        jweEncryption,
+      );
+
+      const ironSealed = await ironCore.encryptSession(session as any);
+      const jweSealed = await jweCore.encryptSession(session as any);
+
+      await expect(jweCore.decryptSession(ironSealed)).resolves.toEqual(
+        session,
+      );
+      expect(jweCore.isSealedWithOldPassword(ironSealed)).toBe(true);
+      expect(jweCore.isSealedWithOldPassword(jweSealed)).toBe(false);
+    });
+
+    it('flags iron sessions stale under JWE without a password rotation', async () => {
+      const session = {
+        accessToken: 'a',
+        refreshToken: 'r',
+        user: mockUser,
+      };
+      const ironCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const jweCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        jweEncryption,
+      );
+
+      const ironSealed = await ironCore.encryptSession(session as any);
+      const jweSealed = await jweCore.encryptSession(session as any);
+
+      expect(ironCore.isSealedWithOldPassword(ironSealed)).toBe(false);
+      expect(jweCore.isSealedWithOldPassword(ironSealed)).toBe(true);
+      expect(jweCore.isSealedWithOldPassword(jweSealed)).toBe(false);
+    });
+  });
+
+  describe('session compression', () => {
+    const session = {
+      accessToken: 'test-access-token',
+      refreshToken: 'test-refresh-token',
+      user: mockUser,
+      impersonator: undefined,
+    };
+
+    it('round-trips a compressed session', async () => {
+      const compressingCore = new AuthKitCore(
+        { ...mockConfig, sessionCompression: true } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+
+      const sealed = await compressingCore.encryptSession(session);
+
+      expect(await compressingCore.decryptSession(sealed)).toEqual(session);
+    });
+
+    it('produces smaller seals than without compression', async () => {
+      const plainCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const compressingCore = new AuthKitCore(
+        { ...mockConfig, sessionCompression: true } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const large = {
+        ...session,
+        user: {
+          ...mockUser,
+          metadata: Object.fromEntries(
+            Array.from({ length: 40 }, (_, i) => [`key_${i}`, `value_${i}`]),
+          ),
+        },
+      };
+
+      const plain = await plainCore.encryptSession(large);
+      const compressed = await compressingCore.encryptSession(large);
+
+      expect(compressed.length).toBeLessThan(plain.length);
+    });
+
+    it('reads uncompressed seals when compression is enabled', async () => {
+      const plainCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const compressingCore = new AuthKitCore(
+        { ...mockConfig, sessionCompression: true } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+
+      const sealed = await plainCore.encryptSession(session);
+
+      expect(await compressingCore.decryptSession(sealed)).toEqual(session);
+    });
+
+    it('reads compressed seals when compression is disabled', async () => {
+      const plainCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const compressingCore = new AuthKitCore(
+        { ...mockConfig, sessionCompression: true } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+
+      const sealed = await compressingCore.encryptSession(session);
+
+      expect(await plainCore.decryptSession(sealed)).toEqual(session);
+    });
+  });
+
+  describe('slim sessions', () => {
+    const session = {
+      accessToken: 'test-access-token',
+      refreshToken: 'test-refresh-token',
+      user: mockUser,
+      impersonator: undefined,
+      createdAt: 1700000000,
+    };
+
+    function makeLoader() {
+      return { getUser: vi.fn(async (_id: string) => mockUser as any) };
+    }
+
+    it('seals the user ID instead of the user', async () => {
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true } as any,
+        mockClient as any,
+        sessionEncryption,
+        { userLoader: makeLoader() },
+      );
+
+      const sealed = await slimCore.encryptSession(session);
+      const raw = await sessionEncryption.unsealData<any>(sealed, {
+        password: mockConfig.cookiePassword,
+      });
+
+      expect(raw.user).toBeUndefined();
+      expect(raw.userId).toBe('user_123');
+      expect(raw.accessToken).toBe('test-access-token');
+      expect(raw.createdAt).toBe(1700000000);
+    });
+
+    it('round-trips through the user loader', async () => {
+      const loader = makeLoader();
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true } as any,
+        mockClient as any,
+        sessionEncryption,
+        { userLoader: loader },
+      );
+
+      const sealed = await slimCore.encryptSession(session);
+
+      expect(await slimCore.decryptSession(sealed)).toEqual(session);
+      expect(loader.getUser).toHaveBeenCalledWith('user_123');
+    });
+
+    it('round-trips with compression enabled', async () => {
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true, sessionCompression: true } as any,
+        mockClient as any,
+        sessionEncryption,
+        { userLoader: makeLoader() },
+      );
+
+      const sealed = await slimCore.encryptSession(session);
+
+      expect(await slimCore.decryptSession(sealed)).toEqual(session);
+    });
+
+    it('reads full seals without calling the loader', async () => {
+      const loader = makeLoader();
+      const plainCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true } as any,
+        mockClient as any,
+        sessionEncryption,
+        { userLoader: loader },
+      );
+
+      const sealed = await plainCore.encryptSession(session);
+
+      expect(await slimCore.decryptSession(sealed)).toEqual(session);
+      expect(loader.getUser).not.toHaveBeenCalled();
+    });
+
+    it('reads slim seals when slim sessions are disabled', async () => {
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+      const plainCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        sessionEncryption,
+        { userLoader: makeLoader() },
+      );
+
+      const sealed = await slimCore.encryptSession(session);
+
+      expect(await plainCore.decryptSession(sealed)).toEqual(session);
+    });
+
+    it('propagates user loader errors unwrapped', async () => {
+      const loaderError = new Error('User not found');
+      const slimCore = new AuthKitCore(
+        { ...mockConfig, slimSessions: true } as any,
+        mockClient as any,
+        sessionEncryption,
+        {
+          userLoader: {
+            getUser: async () => {
+              throw loaderError;
+            },
+          },
+        },
+      );
+
+      const sealed = await slimCore.encryptSession(session);
+
+      await expect(slimCore.decryptSession(sealed)).rejects.toBe(loaderError);
+    });
   });
 
   describe('refreshTokens()', () => {
@@ -338,10 +872,11 @@ describe('AuthKitCore', () => {
       vi.useFakeTimers();
       const { client, getCallCount } = makeCountingClient();
       const testCore = new AuthKitCore(
-        mockConfig as any,
+        inflightOnlyConfig as any,
         client as any,
         mockEncryption as any,
       );
+      trustRefreshedTokens(testCore);
 
       const session = makeExpiredSession();
       const pending = Promise.all([
@@ -367,7 +902,7 @@ describe('AuthKitCore', () => {
         fail: () => true,
       });
       const testCore = new AuthKitCore(
-        mockConfig as any,
+        inflightOnlyConfig as any,
         client as any,
         mockEncryption as any,
       );
@@ -399,10 +934,11 @@ describe('AuthKitCore', () => {
         fail: () => shouldFail,
       });
       const testCore = new AuthKitCore(
-        mockConfig as any,
+        inflightOnlyConfig as any,
         client as any,
         mockEncryption as any,
       );
+      trustRefreshedTokens(testCore);
 
       const session = makeExpiredSession();
 
@@ -428,10 +964,11 @@ describe('AuthKitCore', () => {
       vi.useFakeTimers();
       const { client, getCallCount } = makeCountingClient();
       const testCore = new AuthKitCore(
-        mockConfig as any,
+        inflightOnlyConfig as any,
         client as any,
         mockEncryption as any,
       );
+      trustRefreshedTokens(testCore);
 
       const session = makeExpiredSession();
       const pending = Promise.all([
@@ -655,44 +1192,328 @@ describe('AuthKitCore', () => {
     });
   });
 
-  describe('validateAndRefresh()', () => {
-    const oldJwt =
-      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJ1c2VyXzEyMyIsInNpZCI6InNlc3Npb25fOTk5IiwiZXhwIjoxMDAwMDAwMDAwLCJvcmdfaWQiOiJvcmdfYWJjIn0.sig';
-
-    function makeRefreshClient(capture?: { opts?: any }) {
-      return {
-        userManagement: {
-          getJwksUrl: () => 'https://api.workos.com/sso/jwks/test-client-id',
-          authenticateWithRefreshToken: async (opts: any) => {
-            if (capture) capture.opts = opts;
-            return {
-              accessToken: newJwt,
-              refreshToken: 'new-rt',
-              user: mockUser,
-              impersonator: undefined,
-            };
-          },
-        },
-      };
-    }
+  describe('refreshTokens() grace window', () => {
+    const graceConfig = { ...mockConfig, refreshGraceTtl: 10 };
 
-    it('forces refresh when token invalid and returns new session', async () => {
+    it('reuses a completed refresh for a late request with the old token', async () => {
+      const { client, getCallCount } = makeCountingClient();
       const testCore = new AuthKitCore(
-        mockConfig as any,
-        makeRefreshClient() as any,
-        mockEncryption as any,
+        graceConfig as any,
+        client as any,
+        sessionEncryption,
       );
-      const session = {
-        accessToken: oldJwt,
-        refreshToken: 'rt',
-        user: mockUser,
-        impersonator: undefined,
-      };
+      trustRefreshedTokens(testCore);
+      const session = makeExpiredSession();
 
-      const result = await testCore.validateAndRefresh(session);
+      const first = await testCore.validateAndRefresh(session);
+      const late = await testCore.validateAndRefresh(session);
 
-      expect(result.refreshed).toBe(true);
-      expect(result.session.accessToken).toBe(newJwt);
+      expect(getCallCount()).toBe(1);
+      expect(late.refreshed).toBe(true);
+      expect(late.session.accessToken).toBe(first.session.accessToken);
+      expect(late.session.refreshToken).toBe('new-rt');
+    });
+
+    it('keeps separate entries per organizationId', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const testCore = new AuthKitCore(
+        graceConfig as any,
+        client as any,
+        sessionEncryption,
+      );
+
+      await testCore.refreshTokens('rt-1');
+      await testCore.refreshTokens('rt-1', 'org_1');
+
+      expect(getCallCount()).toBe(2);
+    });
+
+    it('refreshes again when the grace window is not enabled', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        client as any,
+        sessionEncryption,
+      );
+
+      await testCore.refreshTokens('rt-1');
+      await testCore.refreshTokens('rt-1');
+
+      expect(getCallCount()).toBe(2);
+    });
+
+    it('stores sealed results in the configured cache under a hashed key', async () => {
+      const { client } = makeCountingClient();
+      const refreshResultCache = {
+        get: vi.fn(async () => null),
+        set: vi.fn(async () => {}),
+      };
+      const testCore = new AuthKitCore(
+        { ...mockConfig, refreshGraceTtl: 5 } as any,
+        client as any,
+        sessionEncryption,
+        { refreshResultCache },
+      );
+
+      await testCore.refreshTokens('rt-1');
+
+      const [key, value, ttl] = refreshResultCache.set.mock.calls[0] as any[];
+      expect(key).not.toContain('rt-1');
+      expect(value).not.toContain(newJwt);
+      expect(ttl).toBe(5);
+    });
+
+    it('refreshes normally when the cache fails', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const testCore = new AuthKitCore(
+        graceConfig as any,
+        client as any,
+        sessionEncryption,
+        {
+          refreshResultCache: {
+            get: async () => {
+              throw new Error('cache down');
+            },
+            set: async () => {
+              throw new Error('cache down');
+            },
+          },
+        },
+      );
+
+      const result = await testCore.refreshTokens('rt-1');
+
+      expect(result.accessToken).toBe(newJwt);
+      expect(getCallCount()).toBe(1);
+    });
+  });
+
+  describe('refreshTokens() with a RefreshCoordinator', () => {
+    // Separate cores stand in for separate instances: they share nothing but
+    // the coordinator (and the counting client, to observe API calls).
+    function makeInstances(
+      client: unknown,
+      refreshCoordinator: MemoryRefreshCoordinator | Record<string, unknown>,
+      config: Record<string, unknown> = {},
+    ) {
+      return [1, 2, 3].map(
+        () =>
+          new AuthKitCore(
+            { ...mockConfig, ...config } as any,
+            client as any,
+            sessionEncryption,
+            { refreshCoordinator: refreshCoordinator as any },
+          ),
+      );
+    }
+
+    it('refreshes once across instances and shares the result', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const instances = makeInstances(client, new MemoryRefreshCoordinator());
+
+      const results = await Promise.all(
+        instances.map(instance => instance.refreshTokens('rt-1')),
+      );
+
+      expect(getCallCount()).toBe(1);
+      for (const r of results) {
+        expect(r.accessToken).toBe(newJwt);
+        expect(r.refreshToken).toBe('new-rt');
+        expect(r.user).toEqual(mockUser);
+      }
+    });
+
+    it('reuses a published result after release within refreshGraceTtl', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const coordinator = new MemoryRefreshCoordinator();
+      const acquire = vi.spyOn(coordinator, 'acquire');
+      const publish = vi.spyOn(coordinator, 'publish');
+      const [holder, late] = makeInstances(client, coordinator, {
+        refreshGraceTtl: 10,
+      });
+
+      await holder!.refreshTokens('rt-1');
+      const result = await late!.refreshTokens('rt-1');
+
+      expect(getCallCount()).toBe(1);
+      expect(acquire).toHaveBeenCalledOnce();
+      expect(publish.mock.calls[0]![2]).toBe(10);
+      expect(result.refreshToken).toBe('new-rt');
+    });
+
+    it('does not serve a published result after release without refreshGraceTtl', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const coordinator = new MemoryRefreshCoordinator();
+      const waitForResult = vi.spyOn(coordinator, 'waitForResult');
+      const [holder, late] = makeInstances(client, coordinator);
+
+      await holder!.refreshTokens('rt-1');
+      await late!.refreshTokens('rt-1');
+
+      expect(getCallCount()).toBe(2);
+      expect(waitForResult).not.toHaveBeenCalled();
+    });
+
+    it('falls back to refreshing when the lock holder fails', async () => {
+      let first = true;
+      const { client, getCallCount } = makeCountingClient({
+        fail: () => {
+          const fail = first;
+          first = false;
+          return fail;
+        },
+      });
+      const [holder, waiter] = makeInstances(
+        client,
+        new MemoryRefreshCoordinator(),
+      );
+
+      const [holderResult, waiterResult] = await Promise.allSettled([
+        holder!.refreshTokens('rt-1'),
+        waiter!.refreshTokens('rt-1'),
+      ]);
+
+      expect(holderResult.status).toBe('rejected');
+      expect(waiterResult.status).toBe('fulfilled');
+      expect(getCallCount()).toBe(2);
+    });
+
+    it('refreshes without coordination when the coordinator is unavailable', async () => {
+      const { client, getCallCount } = makeCountingClient();
+      const [instance] = makeInstances(client, {
+        acquire: async () => {
+          throw new Error('connection refused');
+        },
+      });
+
+      const result = await instance!.refreshTokens('rt-1');
+
+      expect(result.accessToken).toBe(newJwt);
+      expect(getCallCount()).toBe(1);
+    });
+
+    it('publishes sealed results under a hashed key', async () => {
+      const { client } = makeCountingClient();
+      const coordinator = new MemoryRefreshCoordinator();
+      const publish = vi.spyOn(coordinator, 'publish');
+      const [instance] = makeInstances(client, coordinator);
+
+      await instance!.refreshTokens('rt-1');
+
+      const [key, value] = publish.mock.calls[0]!;
+      expect(key).not.toContain('rt-1');
+      expect(value).not.toContain(newJwt);
+    });
+  });
+
+  describe('validateAndRefresh()', () => {
+    const oldJwt =
+      'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9.eyJzdWIiOiJ1c2VyXzEyMyIsInNpZCI6InNlc3Npb25fOTk5IiwiZXhwIjoxMDAwMDAwMDAwLCJvcmdfaWQiOiJvcmdfYWJjIn0.sig';
+
+    function makeRefreshClient(capture?: { opts?: any }) {
+      return {
+        userManagement: {
+          getJwksUrl: () => 'https://api.workos.com/sso/jwks/test-client-id',
+          authenticateWithRefreshToken: async (opts: any) => {
+            if (capture) capture.opts = opts;
+            return {
+              accessToken: newJwt,
+              refreshToken: 'new-rt',
+              user: mockUser,
+              impersonator: undefined,
+            };
+          },
+        },
+      };
+    }
+
+    it('forces refresh when token invalid and returns new session', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      trustRefreshedTokens(testCore);
+      const session = {
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+        impersonator: undefined,
+      };
+
+      const result = await testCore.validateAndRefresh(session);
+
+      expect(result.refreshed).toBe(true);
+      expect(result.session.accessToken).toBe(newJwt);
+    });
+
+    it('keeps createdAt and slides lastActiveAt on refresh', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      trustRefreshedTokens(testCore);
+      const now = Math.floor(Date.now() / 1000);
+
+      const result = await testCore.validateAndRefresh({
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+        impersonator: undefined,
+        createdAt: now - 3600,
+        lastActiveAt: now - 600,
+      });
+
+      expect(result.session.createdAt).toBe(now - 3600);
+      expect(result.session.lastActiveAt).toBeGreaterThanOrEqual(now);
+    });
+
+    it('carries session metadata across refresh', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      trustRefreshedTokens(testCore);
+      const metadata = {
+        authenticationMethod: 'GoogleOAuth' as const,
+        signedInAt: 1700000000,
+        organizationId: 'org_signin',
+      };
+
+      const result = await testCore.validateAndRefresh(
+        {
+          accessToken: oldJwt,
+          refreshToken: 'rt',
+          user: mockUser,
+          impersonator: undefined,
+          metadata,
+        },
+        { organizationId: 'org_other' },
+      );
+
+      expect(result.session.metadata).toEqual(metadata);
+    });
+
+    it('stamps sessions sealed without timestamps on refresh', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      trustRefreshedTokens(testCore);
+      const now = Math.floor(Date.now() / 1000);
+
+      const result = await testCore.validateAndRefresh({
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+        impersonator: undefined,
+      });
+
+      expect(result.session.createdAt).toBeGreaterThanOrEqual(now);
+      expect(result.session.lastActiveAt).toBe(result.session.createdAt);
     });
 
     it('propagates explicit organizationId into refresh', async () => {
@@ -702,6 +1523,7 @@ describe('AuthKitCore', () => {
         makeRefreshClient(capture) as any,
         mockEncryption as any,
       );
+      trustRefreshedTokens(testCore);
 
       await testCore.validateAndRefresh(
         {
@@ -716,12 +1538,223 @@ describe('AuthKitCore', () => {
       expect(capture.opts?.organizationId).toBe('org_explicit');
     });
 
+    it('throws TokenValidationError without refreshing when the JWKS is unavailable', async () => {
+      const capture: { opts?: any } = {};
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient(capture) as any,
+        mockEncryption as any,
+      );
+      const cause = new TypeError('fetch failed');
+      vi.spyOn(testCore, 'verifyTokenDetailed').mockResolvedValue({
+        status: 'jwks_unavailable',
+        error: cause,
+      });
+
+      const promise = testCore.validateAndRefresh({
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+      });
+
+      await expect(promise).rejects.toBeInstanceOf(TokenValidationError);
+      await expect(promise).rejects.toHaveProperty('cause', cause);
+      expect(capture.opts).toBeUndefined();
+    });
+
+    it('throws AccessTokenError without refreshing when claims are rejected', async () => {
+      const capture: { opts?: any } = {};
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient(capture) as any,
+        mockEncryption as any,
+      );
+      vi.spyOn(testCore, 'verifyTokenDetailed').mockResolvedValue({
+        status: 'invalid_claims',
+        error: new Error('unexpected "iss" claim value'),
+      });
+
+      await expect(
+        testCore.validateAndRefresh({
+          accessToken: oldJwt,
+          refreshToken: 'rt',
+          user: mockUser,
+        }),
+      ).rejects.toMatchObject({
+        name: 'AccessTokenError',
+        reason: 'invalid_claims',
+      });
+      expect(capture.opts).toBeUndefined();
+    });
+
+    it('rejects a refreshed token that fails verification', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      vi.spyOn(testCore, 'verifyTokenDetailed')
+        .mockResolvedValueOnce({ status: 'expired', error: new Error('exp') })
+        .mockResolvedValueOnce({
+          status: 'invalid_claims',
+          error: new Error('unexpected "aud" claim value'),
+        });
+
+      await expect(
+        testCore.validateAndRefresh({
+          accessToken: oldJwt,
+          refreshToken: 'rt',
+          user: mockUser,
+        }),
+      ).rejects.toMatchObject({
+        name: 'AccessTokenError',
+        reason: 'invalid_claims',
+      });
+    });
+
+    it('keeps a refreshed token when the JWKS is unavailable to verify it', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      vi.spyOn(testCore, 'verifyTokenDetailed')
+        .mockResolvedValueOnce({ status: 'expired', error: new Error('exp') })
+        .mockResolvedValueOnce({
+          status: 'jwks_unavailable',
+          error: new Error('unknown kid'),
+        });
+
+      const result = await testCore.validateAndRefresh({
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+      });
+
+      expect(result.refreshed).toBe(true);
+      expect(result.session.accessToken).toBe(newJwt);
+      expect(result.claims).toEqual(decodeJwt(newJwt));
+    });
+
+    it('refreshes expired tokens', async () => {
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        makeRefreshClient() as any,
+        mockEncryption as any,
+      );
+      trustRefreshedTokens(testCore).mockResolvedValueOnce({
+        status: 'expired',
+        error: new Error('"exp" claim timestamp check failed'),
+      });
+
+      const result = await testCore.validateAndRefresh({
+        accessToken: oldJwt,
+        refreshToken: 'rt',
+        user: mockUser,
+      });
+
+      expect(result.refreshed).toBe(true);
+    });
+
+    describe('refreshAheadWindow', () => {
+      function makeCore(config: Record<string, unknown>, capture?: any) {
+        const testCore = new AuthKitCore(
+          { ...mockConfig, ...config } as any,
+          makeRefreshClient(capture) as any,
+          mockEncryption as any,
+        );
+        vi.spyOn(testCore, 'verifyTokenDetailed').mockResolvedValue({
+          status: 'valid',
+          claims: {} as any,
+        });
+        return testCore;
+      }
+
+      it('refreshes valid tokens that expire within the window', async () => {
+        const capture: { opts?: any } = {};
+        const testCore = makeCore({ refreshAheadWindow: 120 }, capture);
+
+        const result = await testCore.validateAndRefresh({
+          accessToken: makeExpiringJwt(60),
+          refreshToken: 'rt',
+          user: mockUser,
+        });
+
+        expect(result.refreshed).toBe(true);
+        expect(result.session.accessToken).toBe(newJwt);
+        expect(capture.opts?.organizationId).toBe('org_abc');
+      });
+
+      it('keeps the current session when an early refresh fails', async () => {
+        const testCore = makeCore({ refreshAheadWindow: 120 });
+        vi.spyOn(testCore, 'refreshTokens').mockRejectedValue(
+          new TokenRefreshError('Rate limited'),
+        );
+        const accessToken = makeExpiringJwt(60);
+
+        const result = await testCore.validateAndRefresh({
+          accessToken,
+          refreshToken: 'rt',
+          user: mockUser,
+        });
+
+        expect(result.valid).toBe(true);
+        expect(result.refreshed).toBe(false);
+        expect(result.session.accessToken).toBe(accessToken);
+      });
+
+      it('still throws when a forced refresh of a valid token fails', async () => {
+        const testCore = makeCore({ refreshAheadWindow: 120 });
+        vi.spyOn(testCore, 'refreshTokens').mockRejectedValue(
+          new TokenRefreshError('Rate limited'),
+        );
+
+        await expect(
+          testCore.validateAndRefresh(
+            {
+              accessToken: makeExpiringJwt(60),
+              refreshToken: 'rt',
+              user: mockUser,
+            },
+            { force: true },
+          ),
+        ).rejects.toBeInstanceOf(TokenRefreshError);
+      });
+
+      it('keeps valid tokens that expire after the window', async () => {
+        const testCore = makeCore({ refreshAheadWindow: 120 });
+        const accessToken = makeExpiringJwt(600);
+
+        const result = await testCore.validateAndRefresh({
+          accessToken,
+          refreshToken: 'rt',
+          user: mockUser,
+        });
+
+        expect(result.refreshed).toBe(false);
+        expect(result.session.accessToken).toBe(accessToken);
+      });
+
+      it('does not refresh ahead when unset', async () => {
+        const testCore = makeCore({});
+
+        const result = await testCore.validateAndRefresh({
+          accessToken: makeExpiringJwt(5),
+          refreshToken: 'rt',
+          user: mockUser,
+        });
+
+        expect(result.refreshed).toBe(false);
+      });
+    });
+
     it('continues when access token is unparseable', async () => {
       const testCore = new AuthKitCore(
         mockConfig as any,
         makeRefreshClient() as any,
         mockEncryption as any,
       );
+      trustRefreshedTokens(testCore);
       const session = {
         accessToken: 'not-a-jwt',
         refreshToken: 'rt',
@@ -759,5 +1792,271 @@ describe('AuthKitCore', () => {
         core.verifyCallbackState({ stateFromUrl: 'a', cookieValue: 'b' }),
       ).rejects.toMatchObject({ name: 'OAuthStateMismatchError' });
     });
+
+    it('accepts state sealed with a rotated-out cookie password', async () => {
+      const sealed = await sealState(
+        sessionEncryption,
+        getCookieKeyring(mockConfig),
+        { nonce: 'n', codeVerifier: 'v' },
+      );
+      const rotatedCore = new AuthKitCore(
+        {
+          ...mockConfig,
+          cookiePasswords: [
+            { id: '2', password: 'a-newer-test-password-that-is-32-chars' },
+            { id: '1', password: mockConfig.cookiePassword },
+          ],
+        } as any,
+        mockClient as any,
+        sessionEncryption,
+      );
+
+      const state = await rotatedCore.verifyCallbackState({
+        stateFromUrl: sealed,
+        cookieValue: sealed,
+      });
+
+      expect(state.codeVerifier).toBe('v');
+    });
+  });
+
+  describe('logging', () => {
+    it('warns when a session cannot be decrypted', async () => {
+      const logger = makeLogger();
+      const failingCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        {
+          sealData: async () => 'encrypted',
+          unsealData: async () => {
+            throw new Error('Decryption failed');
+          },
+        } as any,
+        { logger },
+      );
+
+      await expect(failingCore.decryptSession('bad-data')).rejects.toThrow();
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Session cookie could not be decrypted',
+        { error: { name: 'Error', message: 'Decryption failed' } },
+      );
+    });
+
+    it('logs refresh decisions without token values', async () => {
+      const logger = makeLogger();
+      const failingCore = new AuthKitCore(
+        mockConfig as any,
+        {
+          userManagement: {
+            ...mockClient.userManagement,
+            authenticateWithRefreshToken: async () => {
+              throw new Error('Refresh failed');
+            },
+          },
+        } as any,
+        mockEncryption as any,
+        { logger },
+      );
+
+      await expect(
+        failingCore.refreshTokens('secret-refresh-token', undefined, {
+          userId: 'user_123',
+        }),
+      ).rejects.toThrow(TokenRefreshError);
+
+      expect(logger.debug).toHaveBeenCalledWith(
+        'Refreshing tokens',
+        expect.objectContaining({ userId: 'user_123' }),
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        'Refresh failed',
+        expect.objectContaining({ userId: 'user_123' }),
+      );
+      expect(JSON.stringify(logger.debug.mock.calls)).not.toContain(
+        'secret-refresh-token',
+      );
+      expect(JSON.stringify(logger.warn.mock.calls)).not.toContain(
+        'secret-refresh-token',
+      );
+    });
+
+    it('warns on a callback state mismatch', async () => {
+      const logger = makeLogger();
+      const loggingCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        mockEncryption as any,
+        { logger },
+      );
+
+      await expect(
+        loggingCore.verifyCallbackState({
+          stateFromUrl: 'a',
+          cookieValue: 'b',
+        }),
+      ).rejects.toThrow();
+
+      expect(logger.warn).toHaveBeenCalledOnce();
+    });
+  });
+
+  describe('tracing', () => {
+    it('opens spans for validation and deduplicated refreshes', async () => {
+      vi.useFakeTimers();
+      const { tracer, named } = makeTracer();
+      const { client } = makeCountingClient();
+      const testCore = new AuthKitCore(
+        inflightOnlyConfig as any,
+        client as any,
+        mockEncryption as any,
+        { tracer },
+      );
+      trustRefreshedTokens(testCore);
+
+      const session = makeExpiredSession();
+      const pending = Promise.all([
+        testCore.validateAndRefresh(session),
+        testCore.validateAndRefresh(session),
+      ]);
+      await vi.advanceTimersByTimeAsync(50);
+      await pending;
+
+      expect(named('authkit.validateAndRefresh')).toEqual([
+        expect.objectContaining({
+          attributes: expect.objectContaining({ refreshed: true }),
+          ended: true,
+        }),
+        expect.objectContaining({
+          attributes: expect.objectContaining({ refreshed: true }),
+          ended: true,
+        }),
+      ]);
+      expect(
+        named('authkit.refreshTokens').map(span => span.attributes),
+      ).toEqual([{ deduped: false, retry_count: 0 }, { deduped: true }]);
+      vi.useRealTimers();
+    });
+
+    it('records the rate-limit retry count on the refresh span', async () => {
+      vi.useFakeTimers();
+      const { tracer, named } = makeTracer();
+      const { client } = createRateLimitClient({ retryAfter: 1 });
+      const testCore = new AuthKitCore(
+        inflightOnlyConfig as any,
+        client as any,
+        mockEncryption as any,
+        { tracer },
+      );
+
+      const pending = testCore.refreshTokens('rt-1', 'org_123');
+      await vi.advanceTimersByTimeAsync(1000);
+      await pending;
+
+      expect(named('authkit.refreshTokens')[0]?.attributes).toEqual({
+        org_id: 'org_123',
+        deduped: false,
+        retry_count: 1,
+      });
+      vi.useRealTimers();
+    });
+  });
+
+  describe('metrics', () => {
+    it('counts refreshes, deduplicated joins and latency', async () => {
+      vi.useFakeTimers();
+      const metrics = new InMemoryMetrics();
+      const { client } = makeCountingClient();
+      const testCore = new AuthKitCore(
+        inflightOnlyConfig as any,
+        client as any,
+        mockEncryption as any,
+        { metrics },
+      );
+
+      const pending = Promise.all([
+        testCore.refreshTokens('rt-1'),
+        testCore.refreshTokens('rt-1'),
+      ]);
+      await vi.advanceTimersByTimeAsync(50);
+      await pending;
+
+      expect(
+        metrics.getCounter(AuthMetric.refreshes, { result: 'success' }),
+      ).toBe(1);
+      expect(
+        metrics.getCounter(AuthMetric.refreshes, { result: 'deduped' }),
+      ).toBe(1);
+      expect(metrics.getHistogram(AuthMetric.refreshDuration)).toMatchObject({
+        count: 1,
+        sum: 0.05,
+      });
+      vi.useRealTimers();
+    });
+
+    it('counts rate limits and failed refreshes', async () => {
+      vi.useFakeTimers();
+      const metrics = new InMemoryMetrics();
+      const { client } = createRateLimitClient({
+        onRetry: new Error('still down'),
+      });
+      const testCore = new AuthKitCore(
+        inflightOnlyConfig as any,
+        client as any,
+        mockEncryption as any,
+        { metrics },
+      );
+
+      const pending = testCore.refreshTokens('rt-1');
+      const assertion = expect(pending).rejects.toThrow(TokenRefreshError);
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+
+      expect(
+        metrics.getCounter(AuthMetric.refreshes, { result: 'rate_limited' }),
+      ).toBe(1);
+      expect(
+        metrics.getCounter(AuthMetric.refreshes, { result: 'failure' }),
+      ).toBe(1);
+      vi.useRealTimers();
+    });
+
+    it('counts decrypt failures and PKCE state mismatches', async () => {
+      const metrics = new InMemoryMetrics();
+      const testCore = new AuthKitCore(
+        mockConfig as any,
+        mockClient as any,
+        {
+          sealData: async () => 'encrypted',
+          unsealData: async () => {
+            throw new Error('Decryption failed');
+          },
+        } as any,
+        { metrics },
+      );
+
+      await expect(testCore.decryptSession('bad-data')).rejects.toThrow();
+      await expect(
+        testCore.verifyCallbackState({ stateFromUrl: 'a', cookieValue: 'b' }),
+      ).rejects.toThrow();
+      await expect(
+        testCore.verifyCallbackState({
+          stateFromUrl: 'a',
+          cookieValue: undefined,
+        }),
+      ).rejects.toThrow();
+
+      expect(metrics.getCounter(AuthMetric.decryptFailures)).toBe(1);
+      expect(
+        metrics.getCounter(AuthMetric.pkceStateMismatches, {
+          reason: 'mismatch',
+        }),
+      ).toBe(1);
+      expect(
+        metrics.getCounter(AuthMetric.pkceStateMismatches, {
+          reason: 'missing_cookie',
+        }),
+      ).toBe(1);
+    });
   });
 });
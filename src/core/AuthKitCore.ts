@@ -4,22 +4,109 @@ import {
   type User,
   type WorkOS,
 } from '@workos-inc/node';
-import { createRemoteJWKSet, decodeJwt, jwtVerify } from 'jose';
+import { decodeJwt } from 'jose';
 import { constantTimeEqual, once } from '../utils.js';
 import type { AuthKitConfig } from './config/types.js';
 import {
+  compressPayload,
+  decompressPayload,
+  isCompressedPayload,
+} from './encryption/compression.js';
+import {
+  type CookieKeyring,
+  getCookieKeyring,
+  isSealedWithOldPassword,
+  sealOptions,
+  unsealOptions,
+} from './encryption/cookiePasswords.js';
+import {
+  AccessTokenError,
   OAuthStateMismatchError,
   PKCECookieMissingError,
   SessionEncryptionError,
   TokenRefreshError,
+  TokenValidationError,
 } from './errors.js';
 import { type PKCEState, unsealState } from './pkce/state.js';
+import { getRefreshKey } from './refresh/refreshKey.js';
+import { CachedUserLoader } from './session/CachedUserLoader.js';
+import { MemorySessionStore } from './session/MemorySessionStore.js';
 import type {
   BaseTokenClaims,
   CustomClaims,
+  RefreshCoordinator,
+  RefreshResultCache,
   Session,
   SessionEncryption,
+  TokenVerificationResult,
+  UserLoader,
 } from './session/types.js';
+import { verifyAccessToken } from './session/verifyAccessToken.js';
+import { createRedactingLogger, type Logger } from './logger.js';
+import {
+  AuthMetric,
+  createSafeMetrics,
+  type MetricsSink,
+} from './metrics/metrics.js';
+import { noopTracer, traced, type Span, type Tracer } from './tracer.js';
+import { createJwksKeySet, type JwksLoader } from './session/jwksKeySet.js';
+
+/**
+ * Optional collaborators for `AuthKitCore` (and `AuthService`, which passes
+ * them through).
+ */
+export interface AuthKitCoreOptions {
+  /**
+   * Loads the user for slim sessions. Defaults to `CachedUserLoader`.
+   */
+  userLoader?: UserLoader;
+  /**
+   * Coordinates refreshes of the same token across instances. Without one,
+   * refreshes are only deduplicated within the current process.
+   */
+  refreshCoordinator?: RefreshCoordinator;
+  /**
+   * Remembers completed refreshes for `refreshGraceTtl` seconds. Only used
+   * when `refreshGraceTtl` is set. Defaults to an in-process
+   * `MemorySessionStore`.
+   */
+  refreshResultCache?: RefreshResultCache;
+  /**
+   * Loads a JWKS snapshot on first verification, so tokens can be verified
+   * without waiting on the WorkOS key set. Ignored when `config.jwks` is set.
+   */
+  jwksLoader?: JwksLoader;
+  /**
+   * Receives debug traces of auth decisions and warnings. Tokens and secrets
+   * are redacted before they reach it. Defaults to discarding everything.
+   */
+  logger?: Logger;
+  /**
+   * Opens spans for token validation, refreshes and JWKS fetches. Any
+   * OpenTelemetry `Tracer` works. Defaults to recording nothing.
+   */
+  tracer?: Tracer;
+  /**
+   * Receives counters for refreshes, decrypt failures and PKCE state
+   * mismatches, and the refresh latency histogram. See `AuthMetric`.
+   */
+  metrics?: MetricsSink;
+}
+
+/**
+ * Seconds a `RefreshCoordinator` lock is held before it lapses. Covers the
+ * refresh call plus one rate-limit retry (capped at 10s).
+ */
+const REFRESH_LOCK_TTL = 30;
+
+/** Seconds a waiting instance blocks for another instance's refresh. */
+const REFRESH_WAIT_TIMEOUT = 30;
+
+/**
+ * Seconds a published refresh result stays available when `refreshGraceTtl`
+ * is off: just long enough for instances blocked on the lock to read it.
+ */
+const REFRESH_RESULT_TTL = 5;
 
 type RefreshResult = {
   accessToken: string;
@@ -28,6 +115,26 @@ type RefreshResult = {
   impersonator: Impersonator | undefined;
 };
 
+function toMilliseconds(seconds: number | undefined): number | undefined {
+  return seconds === undefined ? undefined : seconds * 1000;
+}
+
+/** Sealed shape of a session in `slimSessions` mode. */
+type SlimSession = Omit<Session, 'user'> & { userId: string };
+
+function toSlimSession({ user, ...rest }: Session): SlimSession {
+  return { ...rest, userId: user.id };
+}
+
+function isSlimSession(value: unknown): value is SlimSession {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    !('user' in value) &&
+    typeof (value as { userId?: unknown }).userId === 'string'
+  );
+}
+
 /**
  * AuthKitCore provides pure business logic for authentication operations.
  *
@@ -45,6 +152,14 @@ export class AuthKitCore {
   private config: AuthKitConfig;
   private client: WorkOS;
   private encryption: SessionEncryption;
+  private userLoader: UserLoader;
+  private refreshCoordinator: RefreshCoordinator | undefined;
+  private refreshResultCache: RefreshResultCache;
+  private jwksLoader: JwksLoader | undefined;
+  private logger: Logger;
+  private tracer: Tracer;
+  private metrics: MetricsSink;
+  private keyring: CookieKeyring;
   private clientId: string;
   private inflightRefreshes = new Map<string, Promise<RefreshResult>>();
 
@@ -52,21 +167,43 @@ export class AuthKitCore {
     config: AuthKitConfig,
     client: WorkOS,
     encryption: SessionEncryption,
+    options: AuthKitCoreOptions = {},
   ) {
     this.config = config;
     this.client = client;
     this.encryption = encryption;
+    this.userLoader = options.userLoader ?? new CachedUserLoader(client);
+    this.refreshCoordinator = options.refreshCoordinator;
+    this.refreshResultCache =
+      options.refreshResultCache ?? new MemorySessionStore();
+    this.jwksLoader = options.jwksLoader;
+    this.logger = createRedactingLogger(options.logger);
+    this.tracer = options.tracer ?? noopTracer;
+    this.metrics = createSafeMetrics(options.metrics);
+    this.keyring = getCookieKeyring(config);
     this.clientId = config.clientId;
   }
 
   /**
-   * JWKS public key fetcher - cached for performance
+   * JWKS public key resolver - cached for performance. Static or preloaded
+   * keys are tried first; the remote JWKS is only fetched for unknown `kid`s.
    */
-  private readonly getPublicKey = once(() =>
-    createRemoteJWKSet(
+  private readonly getPublicKey = once(() => {
+    const { jwks, jwksCooldown, jwksTimeout, jwksCacheMaxAge } = this.config;
+    return createJwksKeySet(
       new URL(this.client.userManagement.getJwksUrl(this.clientId)),
-    ),
-  );
+      {
+        jwks,
+        loadJwks: this.jwksLoader,
+        tracer: this.tracer,
+        remote: {
+          cooldownDuration: toMilliseconds(jwksCooldown),
+          timeoutDuration: toMilliseconds(jwksTimeout),
+          cacheMaxAge: toMilliseconds(jwksCacheMaxAge),
+        },
+      },
+    );
+  });
 
   /**
    * Verify a JWT access token against WorkOS JWKS.
@@ -75,12 +212,108 @@ export class AuthKitCore {
    * @returns true if valid, false otherwise
    */
   async verifyToken(token: string): Promise<boolean> {
-    try {
-      await jwtVerify(token, this.getPublicKey());
-      return true;
-    } catch {
-      return false;
+    return (await this.verifyTokenDetailed(token)).status === 'valid';
+  }
+
+  /**
+   * Verify a JWT access token against WorkOS JWKS and report why it failed.
+   * Applies the configured `accessTokenAlgorithms`, `issuer`, `audience` and
+   * `clockTolerance`.
+   *
+   * @param token - The JWT access token to verify
+   * @returns `valid` with the verified claims, or `expired`,
+   *   `invalid_signature`, `malformed`, `invalid_claims` or
+   *   `jwks_unavailable` with the underlying error
+   */
+  async verifyTokenDetailed<TCustomClaims = CustomClaims>(
+    token: string,
+  ): Promise<TokenVerificationResult<TCustomClaims>> {
+    const { accessTokenAlgorithms, issuer, audience, clockTolerance } =
+      this.config;
+    const result = await verifyAccessToken<TCustomClaims>(
+      token,
+      this.getPublicKey(),
+      { algorithms: accessTokenAlgorithms, issuer, audience, clockTolerance },
+    );
+    if (result.status === 'valid') {
+      this.logger.debug('Access token verified', { status: result.status });
+    } else if (result.status === 'jwks_unavailable') {
+      this.logger.warn('Access token could not be verified: JWKS unavailable', {
+        status: result.status,
+        error: result.error,
+      });
+    } else {
+      this.logger.debug('Access token rejected', {
+        status: result.status,
+        error: result.error,
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Authenticate a bearer access token presented without a session, and load
+   * its user through the `UserLoader`.
+   *
+   * Never refreshes: there is no refresh token, so an expired token is
+   * rejected and the client must refresh it itself.
+   *
+   * @param accessToken - The JWT access token from the `Authorization` header
+   * @returns The verified claims and the token's user
+   * @throws AccessTokenError if the token isn't valid or has no subject,
+   *   with the verification status as its `reason`
+   */
+  async verifyBearerToken<TCustomClaims = CustomClaims>(
+    accessToken: string,
+  ): Promise<{ claims: BaseTokenClaims & TCustomClaims; user: User }> {
+    const verification =
+      await this.verifyTokenDetailed<TCustomClaims>(accessToken);
+    if (verification.status !== 'valid') {
+      throw new AccessTokenError(
+        `Bearer token rejected: ${verification.status}`,
+        verification.status,
+        verification.error,
+      );
+    }
+
+    const { claims } = verification;
+    if (!claims.sub) {
+      throw new AccessTokenError('Bearer token has no subject', 'malformed');
+    }
+    return { claims, user: await this.userLoader.getUser(claims.sub) };
+  }
+
+  /**
+   * Verify an access token fresh from a refresh before it is accepted.
+   *
+   * Only a definite rejection discards it: the refresh token is already
+   * spent, so when the token can't be checked (e.g. the JWKS is unreachable
+   * for a newly rotated `kid`) its decoded claims are used instead.
+   *
+   * @throws AccessTokenError if the token's signature or claims are
+   *   rejected, with the verification status as its `reason`
+   */
+  private async verifyRefreshedToken<TCustomClaims>(
+    accessToken: string,
+  ): Promise<BaseTokenClaims & TCustomClaims> {
+    const verification =
+      await this.verifyTokenDetailed<TCustomClaims>(accessToken);
+    if (verification.status === 'valid') return verification.claims;
+    if (
+      verification.status !== 'invalid_claims' &&
+      verification.status !== 'invalid_signature'
+    ) {
+      this.logger.warn('Refreshed access token could not be verified', {
+        status: verification.status,
+        error: verification.error,
+      });
+      return this.parseTokenClaims<TCustomClaims>(accessToken);
     }
+    throw new AccessTokenError(
+      `Refreshed access token rejected: ${verification.status}`,
+      verification.status,
+      verification.error,
+    );
   }
 
   /**
@@ -100,6 +333,55 @@ export class AuthKitCore {
     return expiryTime - currentTime <= buffer;
   }
 
+  /**
+   * Stamp `lastActiveAt` on a verified session once a quarter of
+   * `sessionIdleTimeout` has passed since it was last stamped, so the idle
+   * window slides with requests and not only with refreshes.
+   *
+   * @param session - A session whose access token was just verified
+   * @returns The stamped session to re-seal, or null if none is due
+   */
+  touchSession(session: Session): Session | null {
+    const { sessionIdleTimeout } = this.config;
+    const lastActiveAt = session.lastActiveAt ?? session.createdAt;
+    if (sessionIdleTimeout === undefined || lastActiveAt === undefined) {
+      return null;
+    }
+    const currentTime = Math.floor(Date.now() / 1000);
+    if (currentTime - lastActiveAt < sessionIdleTimeout / 4) return null;
+    return { ...session, lastActiveAt: currentTime };
+  }
+
+  /**
+   * Check whether a session is past the configured idle timeout or absolute
+   * lifetime.
+   *
+   * Sessions sealed before lifetime tracking have no timestamps and are never
+   * considered timed out; they are stamped on their next refresh.
+   *
+   * @param session - The decrypted session
+   * @returns true if the session must be treated as signed out
+   */
+  isSessionTimedOut(session: Session): boolean {
+    const { sessionIdleTimeout, sessionMaxLifetime } = this.config;
+    const currentTime = Math.floor(Date.now() / 1000);
+
+    if (
+      sessionMaxLifetime !== undefined &&
+      session.createdAt !== undefined &&
+      currentTime - session.createdAt >= sessionMaxLifetime
+    ) {
+      return true;
+    }
+
+    const lastActiveAt = session.lastActiveAt ?? session.createdAt;
+    return (
+      sessionIdleTimeout !== undefined &&
+      lastActiveAt !== undefined &&
+      currentTime - lastActiveAt >= sessionIdleTimeout
+    );
+  }
+
   /**
    * Get the expiry time from a token's claims.
    *
@@ -137,10 +419,14 @@ export class AuthKitCore {
    */
   async encryptSession(session: Session): Promise<string> {
     try {
-      const encryptedSession = await this.encryption.sealData(session, {
-        password: this.config.cookiePassword,
-        ttl: 0,
-      });
+      const data = this.config.slimSessions ? toSlimSession(session) : session;
+      const payload = this.config.sessionCompression
+        ? await compressPayload(data)
+        : data;
+      const encryptedSession = await this.encryption.sealData(
+        payload,
+        sealOptions(this.keyring, 0),
+      );
       return encryptedSession;
     } catch (error) {
       throw new SessionEncryptionError('Failed to encrypt session', error);
@@ -150,20 +436,51 @@ export class AuthKitCore {
   /**
    * Decrypt an encrypted session string back into a session object.
    *
+   * Reads compressed and uncompressed, full and slim seals regardless of the
+   * current `sessionCompression` and `slimSessions` settings. Slim seals get
+   * their `user` from the `UserLoader`.
+   *
    * @param encryptedSession - The encrypted session string
    * @returns Decrypted session object
    * @throws SessionEncryptionError if decryption fails
+   * @throws Whatever the `UserLoader` throws if a slim session's user can't
+   *   be loaded
    */
   async decryptSession(encryptedSession: string): Promise<Session> {
+    let payload: unknown;
     try {
-      const session = await this.encryption.unsealData<Session>(
+      const unsealed = await this.encryption.unsealData<unknown>(
         encryptedSession,
-        { password: this.config.cookiePassword },
+        unsealOptions(this.keyring),
       );
-      return session;
+      payload = isCompressedPayload(unsealed)
+        ? await decompressPayload(unsealed)
+        : unsealed;
     } catch (error) {
+      this.logger.warn('Session cookie could not be decrypted', { error });
+      this.metrics.increment(AuthMetric.decryptFailures);
       throw new SessionEncryptionError('Failed to decrypt session', error);
     }
+
+    if (isSlimSession(payload)) {
+      const { userId, ...rest } = payload;
+      return { ...rest, user: await this.userLoader.getUser(userId) };
+    }
+    return payload as Session;
+  }
+
+  /**
+   * True when a session was sealed with a cookie password other than the
+   * current one (see `cookiePasswords`), or in a format the encryption
+   * replaces (see `SessionEncryption.needsReseal`), and should be re-sealed.
+   * False when the encryption can't tell.
+   */
+  isSealedWithOldPassword(encryptedSession: string): boolean {
+    return isSealedWithOldPassword(
+      this.encryption,
+      this.keyring,
+      encryptedSession,
+    );
   }
 
   /**
@@ -188,11 +505,19 @@ export class AuthKitCore {
     const { stateFromUrl, cookieValue } = params;
 
     if (!stateFromUrl) {
+      this.logger.warn('OAuth callback is missing the state parameter');
+      this.metrics.increment(AuthMetric.pkceStateMismatches, {
+        reason: 'missing_state',
+      });
       throw new OAuthStateMismatchError(
         'Missing state parameter from callback URL',
       );
     }
     if (!cookieValue) {
+      this.logger.warn('OAuth callback arrived without a PKCE verifier cookie');
+      this.metrics.increment(AuthMetric.pkceStateMismatches, {
+        reason: 'missing_cookie',
+      });
       throw new PKCECookieMissingError(
         'Sign-in session could not be verified. Please try signing in again.',
       );
@@ -201,19 +526,26 @@ export class AuthKitCore {
     const urlBytes = encoder.encode(stateFromUrl);
     const cookieBytes = encoder.encode(cookieValue);
     if (!constantTimeEqual(urlBytes, cookieBytes)) {
+      this.logger.warn('OAuth callback state does not match the PKCE cookie');
+      this.metrics.increment(AuthMetric.pkceStateMismatches, {
+        reason: 'mismatch',
+      });
       throw new OAuthStateMismatchError('OAuth state mismatch');
     }
 
-    return unsealState(
-      this.encryption,
-      this.config.cookiePassword,
-      cookieValue,
-    );
+    return unsealState(this.encryption, this.keyring, cookieValue);
   }
 
   /**
    * Refresh tokens using WorkOS API.
    *
+   * Concurrent calls for the same refresh token share one request within the
+   * process. With a `RefreshCoordinator`, they also share one request across
+   * instances: the lock holder refreshes and publishes the result, and the
+   * others reuse it. With `refreshGraceTtl` set, calls that arrive within
+   * that many seconds after a refresh completed get its result from the
+   * `RefreshResultCache`.
+   *
    * @param refreshToken - The refresh token
    * @param organizationId - Optional organization ID to switch to
    * @param context - Optional context for error reporting (userId, sessionId)
@@ -225,71 +557,344 @@ export class AuthKitCore {
     organizationId?: string,
     context?: { userId?: string; sessionId?: string },
   ): Promise<RefreshResult> {
-    const key = `${refreshToken}\0${organizationId ?? ''}`;
-    const existing = this.inflightRefreshes.get(key);
-    if (existing) return existing;
+    return traced(this.tracer, 'authkit.refreshTokens', async span => {
+      if (organizationId) span.setAttribute('org_id', organizationId);
+      span.setAttribute('deduped', false);
 
-    const cleanup = () => {
-      this.inflightRefreshes.delete(key);
-    };
-    const promise = (async () => {
-      const attempt = async () => {
-        const result =
-          await this.client.userManagement.authenticateWithRefreshToken({
-            refreshToken,
-            clientId: this.clientId,
-            organizationId,
-          });
-        return {
-          accessToken: result.accessToken,
-          refreshToken: result.refreshToken,
-          user: result.user,
-          impersonator: result.impersonator,
-        };
+      const key = `${refreshToken}\0${organizationId ?? ''}`;
+      const existing = this.inflightRefreshes.get(key);
+      if (existing) {
+        this.logger.debug('Refresh deduplicated: joined in-flight refresh', {
+          organizationId,
+          ...context,
+        });
+        span.setAttribute('deduped', true);
+        this.metrics.increment(AuthMetric.refreshes, { result: 'deduped' });
+        return existing;
+      }
+
+      this.logger.debug('Refreshing tokens', { organizationId, ...context });
+      const cleanup = () => {
+        this.inflightRefreshes.delete(key);
       };
+      const promise = this.refreshWithGrace(
+        refreshToken,
+        organizationId,
+        context,
+        span,
+      );
+
+      this.inflightRefreshes.set(key, promise);
+      promise.then(cleanup, cleanup);
+      return promise;
+    });
+  }
+
+  /**
+   * Serve a refresh from the grace-window cache, or perform it and cache the
+   * result. Cache failures fall through to a normal refresh.
+   */
+  private async refreshWithGrace(
+    refreshToken: string,
+    organizationId: string | undefined,
+    context: { userId?: string; sessionId?: string } | undefined,
+    span: Span,
+  ): Promise<RefreshResult> {
+    const graceTtl = this.config.refreshGraceTtl ?? 0;
+    if (graceTtl <= 0) {
+      return this.refreshAcrossInstances(
+        refreshToken,
+        organizationId,
+        context,
+        span,
+      );
+    }
+
+    const key = await getRefreshKey(refreshToken, organizationId);
+    const cached = await this.refreshResultCache.get(key).catch(() => null);
+    const reused = cached ? await this.unsealRefreshResult(cached) : null;
+    if (reused) {
+      this.logger.debug('Refresh deduplicated: reused a recent result', {
+        organizationId,
+        ...context,
+      });
+      span.setAttribute('deduped', true);
+      this.metrics.increment(AuthMetric.refreshes, { result: 'deduped' });
+      return reused;
+    }
+
+    const result = await this.refreshAcrossInstances(
+      refreshToken,
+      organizationId,
+      context,
+      span,
+    );
+    try {
+      await this.refreshResultCache.set(
+        key,
+        await this.sealRefreshResult(result, graceTtl),
+        graceTtl,
+      );
+    } catch {
+      // Losing the grace entry only costs a failed refresh on a late request.
+    }
+    return result;
+  }
 
+  private refreshAcrossInstances(
+    refreshToken: string,
+    organizationId: string | undefined,
+    context: { userId?: string; sessionId?: string } | undefined,
+    span: Span,
+  ): Promise<RefreshResult> {
+    return this.refreshCoordinator
+      ? this.coordinatedRefresh(
+          this.refreshCoordinator,
+          refreshToken,
+          organizationId,
+          context,
+          span,
+        )
+      : this.refreshWithRetry(refreshToken, organizationId, context, span);
+  }
+
+  private sealRefreshResult(
+    result: RefreshResult,
+    ttl: number,
+  ): Promise<string> {
+    return this.encryption.sealData(result, sealOptions(this.keyring, ttl));
+  }
+
+  /** @returns The unsealed result, or null if it can't be read. */
+  private async unsealRefreshResult(
+    sealed: string,
+  ): Promise<RefreshResult | null> {
+    try {
+      return await this.encryption.unsealData<RefreshResult>(
+        sealed,
+        unsealOptions(this.keyring),
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Refresh under the coordinator's lock, or wait for the instance holding it.
+   *
+   * Published results live for `refreshGraceTtl` (or briefly, for waiters,
+   * when it is off). With `refreshGraceTtl` set, a result already published
+   * for this refresh token is also reused before the lock is tried, so a
+   * caller arriving after the holder released doesn't spend the rotated
+   * token; without it, such a caller refreshes and fails. If the holder
+   * releases the lock without a result (its refresh failed) or the wait times
+   * out, this instance refreshes on its own. Coordinator failures are treated
+   * the same way: they must not block sign-in.
+   */
+  private async coordinatedRefresh(
+    coordinator: RefreshCoordinator,
+    refreshToken: string,
+    organizationId: string | undefined,
+    context: { userId?: string; sessionId?: string } | undefined,
+    span: Span,
+  ): Promise<RefreshResult> {
+    const key = await getRefreshKey(refreshToken, organizationId);
+    const graceTtl = this.config.refreshGraceTtl ?? 0;
+
+    if (graceTtl > 0) {
+      const earlier = await this.reusePublishedRefresh(
+        coordinator,
+        key,
+        0,
+        organizationId,
+        context,
+        span,
+      );
+      if (earlier) return earlier;
+    }
+
+    let acquired: boolean;
+    try {
+      acquired = await coordinator.acquire(key, REFRESH_LOCK_TTL);
+    } catch (error) {
+      this.logger.warn('Refresh coordinator unavailable; refreshing locally', {
+        error,
+      });
+      return this.refreshWithRetry(refreshToken, organizationId, context, span);
+    }
+
+    if (!acquired) {
+      const reused = await this.reusePublishedRefresh(
+        coordinator,
+        key,
+        REFRESH_WAIT_TIMEOUT,
+        organizationId,
+        context,
+        span,
+      );
+      return (
+        reused ??
+        this.refreshWithRetry(refreshToken, organizationId, context, span)
+      );
+    }
+
+    try {
+      const result = await this.refreshWithRetry(
+        refreshToken,
+        organizationId,
+        context,
+        span,
+      );
       try {
-        return await attempt();
-      } catch (error) {
-        if (error instanceof RateLimitExceededException) {
-          const raw = error.retryAfter;
-          const delaySec =
-            typeof raw === 'number' && Number.isFinite(raw) && raw > 0
-              ? Math.max(1, Math.min(raw, 10))
-              : 1;
-          await new Promise(r => setTimeout(r, delaySec * 1000));
-          try {
-            return await attempt();
-          } catch (retryError) {
-            if (retryError instanceof Error && !retryError.cause) {
-              retryError.cause = error;
-            }
-            throw new TokenRefreshError(
-              'Failed to refresh tokens after rate-limit retry',
-              retryError,
-              context,
-            );
+        const resultTtl = Math.max(graceTtl, REFRESH_RESULT_TTL);
+        await coordinator.publish(
+          key,
+          await this.sealRefreshResult(result, resultTtl),
+          resultTtl,
+        );
+      } catch {
+        // Waiters fall back to refreshing on their own.
+      }
+      return result;
+    } finally {
+      await coordinator.release(key).catch(() => {});
+    }
+  }
+
+  /**
+   * Wait up to `timeout` seconds (0: just check) for a result published
+   * under `key`.
+   *
+   * @returns The reused result, or null if there is none or it can't be read.
+   */
+  private async reusePublishedRefresh(
+    coordinator: RefreshCoordinator,
+    key: string,
+    timeout: number,
+    organizationId: string | undefined,
+    context: { userId?: string; sessionId?: string } | undefined,
+    span: Span,
+  ): Promise<RefreshResult | null> {
+    let published: string | null;
+    try {
+      published = await coordinator.waitForResult(key, timeout);
+    } catch {
+      return null;
+    }
+    // An unreadable result (e.g. rotated password) counts as no result.
+    const reused = published ? await this.unsealRefreshResult(published) : null;
+    if (reused) {
+      this.logger.debug(
+        'Refresh deduplicated: reused the result of another instance',
+        { organizationId, ...context },
+      );
+      span.setAttribute('deduped', true);
+      this.metrics.increment(AuthMetric.refreshes, { result: 'deduped' });
+    }
+    return reused;
+  }
+
+  /**
+   * Call `authenticateWithRefreshToken`, retrying once after a rate limit.
+   */
+  private async refreshWithRetry(
+    refreshToken: string,
+    organizationId: string | undefined,
+    context: { userId?: string; sessionId?: string } | undefined,
+    span: Span,
+  ): Promise<RefreshResult> {
+    const attempt = async () => {
+      const result =
+        await this.client.userManagement.authenticateWithRefreshToken({
+          refreshToken,
+          clientId: this.clientId,
+          organizationId,
+        });
+      return {
+        accessToken: result.accessToken,
+        refreshToken: result.refreshToken,
+        user: result.user,
+        impersonator: result.impersonator,
+      };
+    };
+
+    const startedAt = Date.now();
+    const settle = (result: 'success' | 'failure') => {
+      this.metrics.increment(AuthMetric.refreshes, { result });
+      this.metrics.observe(
+        AuthMetric.refreshDuration,
+        (Date.now() - startedAt) / 1000,
+      );
+    };
+
+    span.setAttribute('retry_count', 0);
+    try {
+      const refreshed = await attempt();
+      settle('success');
+      return refreshed;
+    } catch (error) {
+      if (error instanceof RateLimitExceededException) {
+        const raw = error.retryAfter;
+        const delaySec =
+          typeof raw === 'number' && Number.isFinite(raw) && raw > 0
+            ? Math.max(1, Math.min(raw, 10))
+            : 1;
+        this.logger.warn('Refresh rate-limited; retrying', {
+          retryAfterSeconds: delaySec,
+          organizationId,
+          ...context,
+        });
+        this.metrics.increment(AuthMetric.refreshes, {
+          result: 'rate_limited',
+        });
+        await new Promise(r => setTimeout(r, delaySec * 1000));
+        span.setAttribute('retry_count', 1);
+        try {
+          const refreshed = await attempt();
+          settle('success');
+          return refreshed;
+        } catch (retryError) {
+          if (retryError instanceof Error && !retryError.cause) {
+            retryError.cause = error;
           }
+          this.logger.warn('Refresh failed after rate-limit retry', {
+            error: retryError,
+            organizationId,
+            ...context,
+          });
+          settle('failure');
+          throw new TokenRefreshError(
+            'Failed to refresh tokens after rate-limit retry',
+            retryError,
+            context,
+          );
         }
-        throw new TokenRefreshError('Failed to refresh tokens', error, context);
       }
-    })();
-
-    this.inflightRefreshes.set(key, promise);
-    promise.then(cleanup, cleanup);
-    return promise;
+      this.logger.warn('Refresh failed', { error, organizationId, ...context });
+      settle('failure');
+      throw new TokenRefreshError('Failed to refresh tokens', error, context);
+    }
   }
 
   /**
    * Validate a session and refresh if needed.
    *
-   * Only refreshes when token is invalid (expired) or force is true.
+   * Refreshes when the token is expired, invalid or malformed, when it
+   * expires within `refreshAheadWindow` seconds, or when force is true. The
+   * refresh token is never spent when the token's validity can't be
+   * determined, or when its claims (`issuer`, `audience`) don't match, since
+   * a refresh would mint another token with the same claims. The refreshed
+   * token is verified before it is accepted.
    *
    * @param session - The current session with access and refresh tokens
    * @param options - Optional settings
    * @param options.force - Force refresh even if token is valid (for org switching)
    * @param options.organizationId - Organization ID to switch to during refresh
    * @returns Validation result with refreshed session if needed
+   * @throws TokenValidationError if the JWKS is unavailable, so the access
+   *   token can't be verified
+   * @throws AccessTokenError if the access token's claims don't match, or the
+   *   refreshed token's signature or claims are rejected
    * @throws TokenRefreshError if refresh fails
    */
   async validateAndRefresh<TCustomClaims = CustomClaims>(
@@ -301,49 +906,103 @@ export class AuthKitCore {
     session: Session;
     claims: BaseTokenClaims & TCustomClaims;
   }> {
-    const { accessToken } = session;
-    const { force = false, organizationId: explicitOrgId } = options ?? {};
+    return traced(this.tracer, 'authkit.validateAndRefresh', async span => {
+      const { accessToken } = session;
+      const { force = false, organizationId: explicitOrgId } = options ?? {};
+      span.setAttribute('force', force);
 
-    const isValid = await this.verifyToken(accessToken);
+      const verification = await this.verifyTokenDetailed(accessToken);
+      span.setAttribute('token_status', verification.status);
+      if (verification.status === 'jwks_unavailable') {
+        throw new TokenValidationError(
+          'Unable to verify access token: JWKS unavailable',
+          verification.error,
+        );
+      }
+      if (verification.status === 'invalid_claims') {
+        throw new AccessTokenError(
+          'Access token claims rejected',
+          'invalid_claims',
+          verification.error,
+        );
+      }
 
-    // Return early if token is valid and not forced
-    if (isValid && !force) {
-      const claims = this.parseTokenClaims<TCustomClaims>(accessToken);
-      return { valid: true, refreshed: false, session, claims };
-    }
+      const isValid = verification.status === 'valid';
+      const { refreshAheadWindow } = this.config;
+      const expiringSoon =
+        isValid &&
+        refreshAheadWindow !== undefined &&
+        refreshAheadWindow > 0 &&
+        this.isTokenExpiring(accessToken, refreshAheadWindow);
 
-    // Determine organization ID: explicit > extracted from token
-    let organizationId = explicitOrgId;
-    if (!organizationId && isValid) {
+      // Return early if token is valid, not about to expire, and not forced
+      if (isValid && !expiringSoon && !force) {
+        const claims = this.parseTokenClaims<TCustomClaims>(accessToken);
+        span.setAttribute('refreshed', false);
+        if (claims.org_id) span.setAttribute('org_id', claims.org_id);
+        return { valid: true, refreshed: false, session, claims };
+      }
+
+      // Determine organization ID: explicit > extracted from token
+      let organizationId = explicitOrgId;
+      if (!organizationId && isValid) {
+        try {
+          const oldClaims = this.parseTokenClaims(accessToken);
+          organizationId = oldClaims.org_id;
+        } catch {
+          // Token parsing failed - refresh without org context
+        }
+      }
+
+      // Extract session ID for error context (works on expired tokens too)
+      let sessionId: string | undefined;
       try {
-        const oldClaims = this.parseTokenClaims(accessToken);
-        organizationId = oldClaims.org_id;
+        sessionId = this.parseTokenClaims(accessToken).sid;
       } catch {
-        // Token parsing failed - refresh without org context
+        // Token parsing failed - continue without session context
       }
-    }
 
-    // Extract session ID for error context (works on expired tokens too)
-    let sessionId: string | undefined;
-    try {
-      sessionId = this.parseTokenClaims(accessToken).sid;
-    } catch {
-      // Token parsing failed - continue without session context
-    }
-
-    const newSession = await this.refreshTokens(
-      session.refreshToken,
-      organizationId,
-      { userId: session.user?.id, sessionId },
-    );
-    const newClaims = this.parseTokenClaims<TCustomClaims>(
-      newSession.accessToken,
-    );
-    return {
-      valid: true,
-      refreshed: true,
-      session: newSession,
-      claims: newClaims,
-    };
+      let refreshed: RefreshResult;
+      try {
+        refreshed = await this.refreshTokens(
+          session.refreshToken,
+          organizationId,
+          { userId: session.user?.id, sessionId },
+        );
+      } catch (error) {
+        // A failed early refresh (rate limit, outage) must not sign out a
+        // session whose token is still valid; the next request retries.
+        if (!expiringSoon || force) throw error;
+        this.logger.warn('Early refresh failed; keeping the current session', {
+          error,
+          userId: session.user?.id,
+          sessionId,
+        });
+        const claims = this.parseTokenClaims<TCustomClaims>(accessToken);
+        span.setAttribute('refreshed', false);
+        if (claims.org_id) span.setAttribute('org_id', claims.org_id);
+        return { valid: true, refreshed: false, session, claims };
+      }
+      const newClaims = await this.verifyRefreshedToken<TCustomClaims>(
+        refreshed.accessToken,
+      );
+      span.setAttribute('refreshed', true);
+      if (newClaims.org_id) span.setAttribute('org_id', newClaims.org_id);
+      // Carry the sign-in time and metadata across refreshes and slide the
+      // idle window.
+      const now = Math.floor(Date.now() / 1000);
+      const newSession: Session = {
+        ...refreshed,
+        createdAt: session.createdAt ?? now,
+        lastActiveAt: now,
+        metadata: session.metadata,
+      };
+      return {
+        valid: true,
+        refreshed: true,
+        session: newSession,
+        claims: newClaims,
+      };
+    });
   }
 }
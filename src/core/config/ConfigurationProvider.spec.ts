@@ -37,6 +37,7 @@ describe('ConfigurationProvider', () => {
       expect(provider.getValue('cookieName')).toBe('wos-session');
       expect(provider.getValue('apiHttps')).toBe(true);
       expect(provider.getValue('cookieMaxAge')).toBe(60 * 60 * 24 * 400);
+      expect(provider.getValue('refreshGraceTtl')).toBeUndefined();
     });
 
     it('returns configured values', () => {
@@ -65,6 +66,20 @@ describe('ConfigurationProvider', () => {
       expect(provider.getValue('apiHttps')).toBe(false);
     });
 
+    it('converts sessionCompression from strings', () => {
+      const source = vi.fn().mockReturnValue('true');
+      provider.configure(source);
+
+      expect(provider.getValue('sessionCompression')).toBe(true);
+    });
+
+    it('converts slimSessions from strings', () => {
+      const source = vi.fn().mockReturnValue('true');
+      provider.configure(source);
+
+      expect(provider.getValue('slimSessions')).toBe(true);
+    });
+
     it('converts number values from strings', () => {
       const source = vi.fn().mockReturnValue('8080');
       provider.configure(source);
@@ -72,12 +87,78 @@ describe('ConfigurationProvider', () => {
       expect(provider.getValue('apiPort')).toBe(8080);
     });
 
+    it('converts session lifetime limits from strings', () => {
+      const source = vi.fn((key: string) =>
+        key === 'WORKOS_SESSION_IDLE_TIMEOUT' ? '1800' : '86400',
+      );
+      provider.configure(source);
+
+      expect(provider.getValue('sessionIdleTimeout')).toBe(1800);
+      expect(provider.getValue('sessionMaxLifetime')).toBe(86400);
+    });
+
     it('returns undefined for invalid numbers', () => {
       const source = vi.fn().mockReturnValue('invalid');
       provider.configure(source);
 
       expect(provider.getValue('apiPort')).toBeUndefined();
     });
+
+    it('parses a JSON-encoded jwks', () => {
+      const keys = [{ kty: 'RSA', kid: 'key_1', n: 'abc', e: 'AQAB' }];
+      provider.configure(
+        vi.fn((key: string) =>
+          key === 'WORKOS_JWKS' ? JSON.stringify({ keys }) : undefined,
+        ),
+      );
+
+      expect(provider.getValue('jwks')).toEqual({ keys });
+    });
+
+    it('parses comma-separated accessTokenAlgorithms', () => {
+      provider.configure(
+        vi.fn((key: string) =>
+          key === 'WORKOS_ACCESS_TOKEN_ALGORITHMS' ? 'RS256, ES256' : undefined,
+        ),
+      );
+
+      expect(provider.getValue('accessTokenAlgorithms')).toEqual([
+        'RS256',
+        'ES256',
+      ]);
+    });
+
+    it('returns undefined for an invalid JSON jwks', () => {
+      provider.configure(vi.fn().mockReturnValue('{not json'));
+
+      expect(provider.getValue('jwks')).toBeUndefined();
+    });
+
+    it('falls back to the first of cookiePasswords for cookiePassword', () => {
+      const cookiePasswords = [
+        { id: '2', password: 'b'.repeat(32) },
+        { id: '1', password: 'a'.repeat(32) },
+      ];
+      provider.configure(
+        vi.fn((key: string) =>
+          key === 'WORKOS_COOKIE_PASSWORDS'
+            ? JSON.stringify(cookiePasswords)
+            : undefined,
+        ),
+      );
+
+      expect(provider.getValue('cookiePasswords')).toEqual(cookiePasswords);
+      expect(provider.getValue('cookiePassword')).toBe('b'.repeat(32));
+    });
+
+    it('prefers the first of cookiePasswords over an explicit cookiePassword', () => {
+      provider.configure({
+        cookiePassword: 'a'.repeat(32),
+        cookiePasswords: [{ id: '2', password: 'b'.repeat(32) }],
+      });
+
+      expect(provider.getValue('cookiePassword')).toBe('b'.repeat(32));
+    });
   });
 
   describe('getEnvironmentVariableName()', () => {
@@ -118,6 +199,27 @@ describe('ConfigurationProvider', () => {
       const config = provider.getConfig();
       expect(config.cookieName).toBe('test-cookie');
     });
+
+    it('includes optional keys set only in the environment', () => {
+      const env: Record<string, string> = {
+        WORKOS_CLIENT_ID: 'test-client',
+        WORKOS_API_KEY: 'test-api-key',
+        WORKOS_REDIRECT_URI: 'http://localhost:3000/callback',
+        WORKOS_COOKIE_PASSWORD: 'a'.repeat(32),
+        WORKOS_COOKIE_PREFIX: '__Host-',
+        WORKOS_SESSION_IDLE_TIMEOUT: '60',
+        WORKOS_ACCEPT_BEARER_TOKENS: 'true',
+        WORKOS_ISSUER: 'iss',
+      };
+      provider.configure(vi.fn((key: string) => env[key]));
+
+      expect(provider.getConfig()).toMatchObject({
+        cookiePrefix: '__Host-',
+        sessionIdleTimeout: 60,
+        acceptBearerTokens: true,
+        issuer: 'iss',
+      });
+    });
   });
 
   describe('validate()', () => {
@@ -152,6 +254,111 @@ describe('ConfigurationProvider', () => {
       );
     });
 
+    it('accepts cookiePasswords in place of cookiePassword', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'http://localhost:3000/callback',
+        cookiePasswords: [
+          { id: '2', password: 'b'.repeat(32) },
+          { id: '1', password: 'a'.repeat(32) },
+        ],
+      });
+
+      expect(() => provider.validate()).not.toThrow();
+    });
+
+    it('rejects invalid, duplicate and short cookiePasswords', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'http://localhost:3000/callback',
+        cookiePasswords: [
+          { id: 'v*2', password: 'b'.repeat(32) },
+          { id: '1', password: 'a'.repeat(32) },
+          { id: '1', password: 'short' },
+        ],
+      });
+
+      expect(() => provider.validate()).toThrow(
+        /WORKOS_COOKIE_PASSWORDS\[0\]\.id must be word characters only[\s\S]*WORKOS_COOKIE_PASSWORDS\[2\]\.id "1" is used more than once[\s\S]*WORKOS_COOKIE_PASSWORDS\[2\]\.password must be at least 32 characters \(currently 5\)/,
+      );
+    });
+
+    it('rejects cookiePasswords that are not valid JSON', () => {
+      provider.configure(
+        {
+          clientId: 'test-client',
+          apiKey: 'test-api-key',
+          redirectUri: 'http://localhost:3000/callback',
+          cookiePassword: 'a'.repeat(32),
+        },
+        vi.fn((key: string) =>
+          key === 'WORKOS_COOKIE_PASSWORDS' ? '[{"id": "2",' : undefined,
+        ),
+      );
+
+      expect(() => provider.validate()).toThrow(
+        /WORKOS_COOKIE_PASSWORDS must be valid JSON/,
+      );
+    });
+
+    it('rejects a jwks that is not a key set', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'http://localhost:3000/callback',
+        cookiePassword: 'a'.repeat(32),
+        jwks: { keys: 'not-a-list' } as any,
+      });
+
+      expect(() => provider.validate()).toThrow(
+        /WORKOS_JWKS must be a JSON Web Key Set/,
+      );
+    });
+
+    it('rejects cookieDomain combined with the __Host- prefix', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'https://example.com/callback',
+        cookiePassword: 'a'.repeat(32),
+        cookiePrefix: '__Host-',
+        cookieDomain: 'example.com',
+      });
+
+      expect(() => provider.validate()).toThrow(
+        /WORKOS_COOKIE_DOMAIN must not be set when WORKOS_COOKIE_PREFIX is "__Host-"/,
+      );
+    });
+
+    it('accepts cookieDomain combined with the __Secure- prefix', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'https://example.com/callback',
+        cookiePassword: 'a'.repeat(32),
+        cookiePrefix: '__Secure-',
+        cookieDomain: 'example.com',
+      });
+
+      expect(() => provider.validate()).not.toThrow();
+    });
+
+    it('rejects unknown cookie prefixes', () => {
+      provider.configure({
+        clientId: 'test-client',
+        apiKey: 'test-api-key',
+        redirectUri: 'https://example.com/callback',
+        cookiePassword: 'a'.repeat(32),
+        cookiePrefix: '__Bogus-' as any,
+      });
+
+      expect(() => provider.validate()).toThrow(
+        /WORKOS_COOKIE_PREFIX must be one of "__Host-", "__Secure-" \(currently "__Bogus-"\)/,
+      );
+    });
+
     it('includes dashboard link in error message', () => {
       expect(() => provider.validate()).toThrow(
         /Get your values from the WorkOS Dashboard: https:\/\/dashboard\.workos\.com/,
@@ -1,4 +1,5 @@
-import type { AuthKitConfig, ValueSource } from './types.js';
+import { COOKIE_PREFIXES } from '../session/cookiePrefix.js';
+import type { AuthKitConfig, CookiePassword, ValueSource } from './types.js';
 
 /**
  * Default environment variable source that uses process.env
@@ -14,6 +15,49 @@ const defaultSource: ValueSource = (key: string): string | undefined => {
   }
 };
 
+function isJsonWebKeySet(value: unknown): boolean {
+  const keys = (value as { keys?: unknown } | null)?.keys;
+  return (
+    Array.isArray(keys) &&
+    keys.every(key => typeof key === 'object' && key !== null)
+  );
+}
+
+/**
+ * Every config key, so `getConfig()` can pick up keys set only in the
+ * environment. Typed as a record so a new `AuthKitConfig` key must be added.
+ */
+const CONFIG_KEYS = Object.keys({
+  clientId: true,
+  apiKey: true,
+  redirectUri: true,
+  cookiePassword: true,
+  cookiePasswords: true,
+  apiHostname: true,
+  apiHttps: true,
+  apiPort: true,
+  cookieMaxAge: true,
+  cookieSameSite: true,
+  cookieName: true,
+  cookieDomain: true,
+  cookiePrefix: true,
+  sessionCompression: true,
+  slimSessions: true,
+  sessionIdleTimeout: true,
+  sessionMaxLifetime: true,
+  refreshGraceTtl: true,
+  refreshAheadWindow: true,
+  issuer: true,
+  audience: true,
+  clockTolerance: true,
+  accessTokenAlgorithms: true,
+  jwks: true,
+  jwksCooldown: true,
+  jwksTimeout: true,
+  jwksCacheMaxAge: true,
+  acceptBearerTokens: true,
+} satisfies Record<keyof AuthKitConfig, true>) as (keyof AuthKitConfig)[];
+
 /**
  * Configuration class for AuthKit.
  * This class is used to manage configuration values and provide defaults.
@@ -72,6 +116,12 @@ export class ConfigurationProvider {
   }
 
   getValue<K extends keyof AuthKitConfig>(key: K): AuthKitConfig[K] {
+    // With rotation configured, the current password takes precedence.
+    if (key === 'cookiePassword') {
+      const current = this.getValue('cookiePasswords')?.[0]?.password;
+      if (current) return current as AuthKitConfig[K];
+    }
+
     const envKey = this.getEnvironmentVariableName(key);
     const envValue = this.getEnvironmentValue(envKey);
 
@@ -114,16 +164,50 @@ export class ConfigurationProvider {
     }
 
     // Handle boolean conversion
-    if (key === 'apiHttps') {
+    if (
+      key === 'apiHttps' ||
+      key === 'sessionCompression' ||
+      key === 'slimSessions' ||
+      key === 'acceptBearerTokens'
+    ) {
       return (value === 'true') as AuthKitConfig[K];
     }
 
     // Handle number conversion
-    if (key === 'apiPort' || key === 'cookieMaxAge') {
+    if (
+      key === 'apiPort' ||
+      key === 'cookieMaxAge' ||
+      key === 'sessionIdleTimeout' ||
+      key === 'sessionMaxLifetime' ||
+      key === 'refreshGraceTtl' ||
+      key === 'refreshAheadWindow' ||
+      key === 'clockTolerance' ||
+      key === 'jwksCooldown' ||
+      key === 'jwksTimeout' ||
+      key === 'jwksCacheMaxAge'
+    ) {
       const num = parseInt(value, 10);
       return (isNaN(num) ? undefined : num) as AuthKitConfig[K];
     }
 
+    // Handle comma-separated lists
+    if (key === 'accessTokenAlgorithms') {
+      const list = value
+        .split(',')
+        .map(item => item.trim())
+        .filter(Boolean);
+      return (list.length ? list : undefined) as AuthKitConfig[K];
+    }
+
+    // Handle JSON conversion
+    if (key === 'jwks' || key === 'cookiePasswords') {
+      try {
+        return JSON.parse(value) as AuthKitConfig[K];
+      } catch {
+        return undefined;
+      }
+    }
+
     return value as AuthKitConfig[K];
   }
 
@@ -145,9 +229,15 @@ export class ConfigurationProvider {
    */
   validate(): void {
     const errors: string[] = [];
+    const cookiePasswords = this.getValue('cookiePasswords');
+    const rotating =
+      Array.isArray(cookiePasswords) && cookiePasswords.length > 0;
 
     // Validate each required key
     for (const key of this.requiredKeys) {
+      // Validated below as part of `cookiePasswords` instead.
+      if (key === 'cookiePassword' && rotating) continue;
+
       const envKey = this.getEnvironmentVariableName(key);
       const envValue = this.getEnvironmentValue(envKey);
       const configValue = this.config[key];
@@ -166,6 +256,38 @@ export class ConfigurationProvider {
       }
     }
 
+    if (cookiePasswords != null) {
+      errors.push(...this.validateCookiePasswords(cookiePasswords));
+    } else {
+      // getValue() reads unparseable JSON as unset, which would silently
+      // fall back to `cookiePassword` mid-rotation.
+      const envKey = this.getEnvironmentVariableName('cookiePasswords');
+      if (this.getEnvironmentValue(envKey) != null) {
+        errors.push(`${envKey} must be valid JSON`);
+      }
+    }
+
+    const jwks: unknown = this.getValue('jwks');
+    if (jwks != null && !isJsonWebKeySet(jwks)) {
+      errors.push(
+        `${this.getEnvironmentVariableName('jwks')} must be a JSON Web Key Set ({ "keys": [...] })`,
+      );
+    }
+
+    const cookiePrefix = this.getValue('cookiePrefix');
+    if (cookiePrefix != null) {
+      const envKey = this.getEnvironmentVariableName('cookiePrefix');
+      if (!COOKIE_PREFIXES.includes(cookiePrefix)) {
+        errors.push(
+          `${envKey} must be one of ${COOKIE_PREFIXES.map(p => `"${p}"`).join(', ')} (currently "${cookiePrefix}")`,
+        );
+      } else if (cookiePrefix === '__Host-' && this.getValue('cookieDomain')) {
+        errors.push(
+          `${this.getEnvironmentVariableName('cookieDomain')} must not be set when ${envKey} is "__Host-" (browsers reject __Host- cookies with a Domain attribute)`,
+        );
+      }
+    }
+
     if (errors.length > 0) {
       throw new Error(
         'AuthKit configuration error. Missing or invalid environment variables:\n\n' +
@@ -176,14 +298,42 @@ export class ConfigurationProvider {
     }
   }
 
+  private validateCookiePasswords(cookiePasswords: unknown): string[] {
+    const envKey = this.getEnvironmentVariableName('cookiePasswords');
+    if (!Array.isArray(cookiePasswords) || cookiePasswords.length === 0) {
+      return [`${envKey} must be a non-empty array of { id, password }`];
+    }
+
+    const errors: string[] = [];
+    const seen = new Set<string>();
+    for (const [index, entry] of cookiePasswords.entries()) {
+      const { id, password } = (entry ?? {}) as Partial<CookiePassword>;
+      if (typeof id !== 'string' || !/^\w+$/.test(id)) {
+        errors.push(
+          `${envKey}[${index}].id must be word characters only (currently ${JSON.stringify(id)})`,
+        );
+      } else if (seen.has(id)) {
+        errors.push(`${envKey}[${index}].id "${id}" is used more than once`);
+      } else {
+        seen.add(id);
+      }
+      if (typeof password !== 'string' || password.length < 32) {
+        errors.push(
+          `${envKey}[${index}].password must be at least 32 characters (currently ${typeof password === 'string' ? password.length : 0})`,
+        );
+      }
+    }
+    return errors;
+  }
+
   getConfig(): AuthKitConfig {
     // Build a complete config by merging stored config with environment variables
     const fullConfig = {} as AuthKitConfig;
 
-    // Get all keys from the stored config and required keys
+    // Every known key, so ones set only in the environment come along too
     const allKeys = new Set<keyof AuthKitConfig>([
       ...(Object.keys(this.config) as (keyof AuthKitConfig)[]),
-      ...this.requiredKeys,
+      ...CONFIG_KEYS,
     ]);
 
     // Merge each key, with environment variables taking precedence
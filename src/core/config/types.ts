@@ -1,3 +1,21 @@
+import type { JSONWebKeySet } from 'jose';
+
+/**
+ * Cookie name prefixes with browser-enforced attribute requirements
+ * (RFC 6265bis §4.1.3).
+ */
+export type CookiePrefix = '__Host-' | '__Secure-';
+
+/**
+ * A cookie password and the ID embedded in seals made with it.
+ */
+export interface CookiePassword {
+  /** Word characters only (`[A-Za-z0-9_]`). */
+  id: string;
+  /** Must be at least 32 characters long. */
+  password: string;
+}
+
 /**
  * AuthKit Configuration Options
  */
@@ -24,9 +42,23 @@ export interface AuthKitConfig {
    * The password used to encrypt the session cookie
    * Equivalent to the WORKOS_COOKIE_PASSWORD environment variable
    * Must be at least 32 characters long
+   * Optional, and ignored, when `cookiePasswords` is set
    */
   cookiePassword: string;
 
+  /**
+   * Cookie passwords for rotation, newest first. New seals use the first
+   * one; existing seals are opened with the password matching their
+   * embedded ID, and sessions sealed with an older one are re-sealed by
+   * `withAuth`. PKCE state isn't re-sealed: it still unseals with an older
+   * listed password and expires after 10 minutes. Seals made with
+   * `cookiePassword` alone have ID `1`, so keep it as
+   * `{ id: '1', password: <old cookiePassword> }` while rotating.
+   * Takes precedence over `cookiePassword`.
+   * Equivalent to the WORKOS_COOKIE_PASSWORDS environment variable (JSON-encoded)
+   */
+  cookiePasswords?: CookiePassword[];
+
   /**
    * The hostname of the API to use
    * Equivalent to the WORKOS_API_HOSTNAME environment variable
@@ -67,6 +99,152 @@ export interface AuthKitConfig {
    * The domain for the session cookie
    */
   cookieDomain?: string;
+
+  /**
+   * Cookie name prefix for the session and PKCE verifier cookies.
+   *
+   * - `__Host-`: the browser only accepts the cookie with `Secure`, `Path=/`
+   *   and no `Domain`, so subdomains can't plant or overwrite it.
+   *   Incompatible with `cookieDomain`.
+   * - `__Secure-`: the browser only accepts the cookie with `Secure`.
+   *
+   * The required attributes are applied automatically.
+   * Equivalent to the WORKOS_COOKIE_PREFIX environment variable
+   */
+  cookiePrefix?: CookiePrefix;
+
+  /**
+   * Deflate the session before sealing it, to keep large sessions (many
+   * roles, permissions, or feature flags) under the per-cookie size limit.
+   * Sessions sealed either way are always readable, so this can be toggled
+   * without signing anyone out — but only once every instance runs a version
+   * that understands compressed seals.
+   * Equivalent to the WORKOS_SESSION_COMPRESSION environment variable
+   * Defaults to false
+   */
+  sessionCompression?: boolean;
+
+  /**
+   * Seal only the tokens and user ID into the session instead of the full
+   * `User`, and load the user through a `UserLoader` on each read (by default
+   * `userManagement.getUser` behind a short per-process cache). Keeps the
+   * cookie small and picks up profile edits without waiting for a refresh.
+   * Sessions sealed in either mode are always readable.
+   * Equivalent to the WORKOS_SLIM_SESSIONS environment variable
+   * Defaults to false
+   */
+  slimSessions?: boolean;
+
+  /**
+   * Sign the user out after this many seconds without a request. Each
+   * refresh slides the window forward, and so does `withAuth`, re-sealing
+   * the cookie once a quarter of the timeout has passed since the last
+   * stamp.
+   * Equivalent to the WORKOS_SESSION_IDLE_TIMEOUT environment variable
+   * Unset by default (no idle timeout)
+   */
+  sessionIdleTimeout?: number;
+
+  /**
+   * Sign the user out this many seconds after they signed in, however
+   * active the session has been since.
+   * Equivalent to the WORKOS_SESSION_MAX_LIFETIME environment variable
+   * Unset by default (no absolute lifetime)
+   */
+  sessionMaxLifetime?: number;
+
+  /**
+   * Seconds a completed refresh is remembered, so requests that still carry
+   * the pre-refresh cookie (parallel fetches from one page) get the rotated
+   * session instead of failing on the retired refresh token. Anyone holding
+   * the old refresh token can claim the new session within this window, so
+   * it is opt-in; keep it short (e.g. 10).
+   * Equivalent to the WORKOS_REFRESH_GRACE_TTL environment variable
+   * Defaults to 0 (disabled)
+   */
+  refreshGraceTtl?: number;
+
+  /**
+   * Refresh access tokens that are still valid but expire within this many
+   * seconds, so `auth.accessToken` never expires mid-request. Should be well
+   * under the access token lifetime, or every request will refresh.
+   * Equivalent to the WORKOS_REFRESH_AHEAD_WINDOW environment variable
+   * Unset by default (refresh only once the token has expired)
+   */
+  refreshAheadWindow?: number;
+
+  /**
+   * Expected `iss` claim of access tokens. Tokens from any other issuer
+   * (e.g. another WorkOS environment sharing keys) are rejected.
+   * Equivalent to the WORKOS_ISSUER environment variable
+   */
+  issuer?: string;
+
+  /**
+   * Expected `aud` claim of access tokens. Tokens minted for any other
+   * audience are rejected.
+   * Equivalent to the WORKOS_AUDIENCE environment variable
+   */
+  audience?: string;
+
+  /**
+   * Seconds of clock skew tolerated when checking time-based claims
+   * (`exp`, `nbf`, `iat`), so small drift between servers doesn't cause
+   * needless refreshes.
+   * Equivalent to the WORKOS_CLOCK_TOLERANCE environment variable
+   */
+  clockTolerance?: number;
+
+  /**
+   * Signing algorithms accepted for access tokens. Only needed if WorkOS
+   * signs with an algorithm other than RS256.
+   * Equivalent to the WORKOS_ACCESS_TOKEN_ALGORITHMS environment variable
+   * (comma-separated)
+   * Defaults to ['RS256']
+   */
+  accessTokenAlgorithms?: string[];
+
+  /**
+   * Static JWKS used to verify access tokens without fetching the WorkOS key
+   * set, e.g. on cold start or in air-gapped test environments. Tokens signed
+   * by a key that isn't in it fall back to the remote JWKS.
+   * Equivalent to the WORKOS_JWKS environment variable (JSON-encoded)
+   */
+  jwks?: JSONWebKeySet;
+
+  /**
+   * Seconds to wait after a remote JWKS fetch before refetching for an
+   * unknown `kid`.
+   * Equivalent to the WORKOS_JWKS_COOLDOWN environment variable
+   * Defaults to 30
+   */
+  jwksCooldown?: number;
+
+  /**
+   * Seconds before a remote JWKS fetch is aborted.
+   * Equivalent to the WORKOS_JWKS_TIMEOUT environment variable
+   * Defaults to 5
+   */
+  jwksTimeout?: number;
+
+  /**
+   * Seconds a fetched remote JWKS is used before it's considered stale and
+   * refetched.
+   * Equivalent to the WORKOS_JWKS_CACHE_MAX_AGE environment variable
+   * Defaults to 600
+   */
+  jwksCacheMaxAge?: number;
+
+  /**
+   * Let `withAuth` authenticate requests without a session cookie by an
+   * `Authorization: Bearer <accessToken>` header (mobile apps, CLIs). The
+   * token is verified and its user loaded through the `UserLoader`; bearer
+   * requests are never refreshed and never get cookies.
+   * Requires a storage that implements `getAuthorizationHeader`.
+   * Equivalent to the WORKOS_ACCEPT_BEARER_TOKENS environment variable
+   * Defaults to false
+   */
+  acceptBearerTokens?: boolean;
 }
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
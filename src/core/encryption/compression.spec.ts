@@ -0,0 +1,54 @@
+import {
+  compressPayload,
+  decompressPayload,
+  isCompressedPayload,
+} from './compression.js';
+
+const compressible = {
+  user: { firstName: 'Test', lastName: 'User', metadata: {} },
+  permissions: Array.from({ length: 50 }, (_, i) => `widgets:action-${i}`),
+};
+
+describe('compressPayload', () => {
+  it('wraps compressible payloads in a deflate envelope', async () => {
+    const result = await compressPayload(compressible);
+
+    expect(isCompressedPayload(result)).toBe(true);
+    expect(JSON.stringify(result).length).toBeLessThan(
+      JSON.stringify(compressible).length,
+    );
+  });
+
+  it('returns the payload unchanged when compression would not shrink it', async () => {
+    const tiny = { a: 1 };
+
+    expect(await compressPayload(tiny)).toBe(tiny);
+  });
+
+  it('round-trips through decompressPayload', async () => {
+    const result = await compressPayload(compressible);
+
+    if (!isCompressedPayload(result)) throw new Error('expected envelope');
+    expect(await decompressPayload(result)).toEqual(compressible);
+  });
+});
+
+describe('isCompressedPayload', () => {
+  it('rejects uncompressed sessions', () => {
+    expect(
+      isCompressedPayload({ accessToken: 'a', refreshToken: 'r', user: {} }),
+    ).toBe(false);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(isCompressedPayload({ format: 'gzip', data: 'x' })).toBe(false);
+  });
+});
+
+describe('decompressPayload', () => {
+  it('rejects corrupt data', async () => {
+    await expect(
+      decompressPayload({ format: 'deflate', data: 'bm90LWRlZmxhdGU' }),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,72 @@
+import * as v from 'valibot';
+import { base64UrlDecode, base64UrlEncode } from '../../utils.js';
+
+/**
+ * Envelope sealed in place of the raw payload when compression is enabled.
+ *
+ * The `format` field is the marker `decryptSession` uses to tell compressed
+ * seals from older uncompressed ones — a `Session` never has it. Because the
+ * envelope is sealed, the marker is covered by the seal's integrity check
+ * and can't be flipped by a client.
+ */
+export const CompressedPayloadSchema = v.object({
+  format: v.literal('deflate'),
+  data: v.string(),
+});
+
+export type CompressedPayload = v.InferOutput<typeof CompressedPayloadSchema>;
+
+async function pipe(
+  bytes: Uint8Array<ArrayBuffer>,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * JSON-encode and deflate `data` into a {@link CompressedPayload}.
+ *
+ * Uses the web-standard `CompressionStream` (Node 18+, browsers, edge
+ * runtimes). Returns `data` unchanged when compression doesn't make it
+ * smaller — the base64 step costs a third, which mostly-token payloads
+ * don't always earn back.
+ */
+export async function compressPayload(
+  data: unknown,
+): Promise<CompressedPayload | unknown> {
+  const json = JSON.stringify(data);
+  const compressed = await pipe(
+    new TextEncoder().encode(json),
+    new CompressionStream('deflate'),
+  );
+  const encoded = base64UrlEncode(compressed);
+  return encoded.length < json.length
+    ? { format: 'deflate', data: encoded }
+    : data;
+}
+
+/**
+ * True when an unsealed value is a {@link CompressedPayload} rather than a
+ * payload sealed without compression.
+ */
+export function isCompressedPayload(
+  value: unknown,
+): value is CompressedPayload {
+  return v.is(CompressedPayloadSchema, value);
+}
+
+/**
+ * Inflate and JSON-decode a {@link CompressedPayload}.
+ *
+ * @throws Error if the data is not valid base64url, deflate, or JSON
+ */
+export async function decompressPayload<T>(
+  payload: CompressedPayload,
+): Promise<T> {
+  const inflated = await pipe(
+    base64UrlDecode(payload.data),
+    new DecompressionStream('deflate'),
+  );
+  return JSON.parse(new TextDecoder().decode(inflated)) as T;
+}
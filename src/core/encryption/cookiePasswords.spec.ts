@@ -0,0 +1,70 @@
+import {
+  getCookieKeyring,
+  isSealedWithOldPassword,
+  sealOptions,
+  unsealOptions,
+} from './cookiePasswords.js';
+import sessionEncryption from './ironWebcryptoEncryption.js';
+
+const oldPassword = 'this-is-a-test-password-that-is-32-characters-long!';
+const newPassword = 'a-newer-test-password-that-is-32-characters-long';
+
+describe('getCookieKeyring', () => {
+  it('uses cookiePassword as ID 1 without cookiePasswords', () => {
+    expect(getCookieKeyring({ cookiePassword: oldPassword })).toEqual({
+      current: { id: '1', password: oldPassword },
+      passwords: { 1: oldPassword },
+    });
+  });
+
+  it('seals with the first of cookiePasswords and accepts all', () => {
+    const keyring = getCookieKeyring({
+      cookiePassword: oldPassword,
+      cookiePasswords: [
+        { id: '2', password: newPassword },
+        { id: '1', password: oldPassword },
+      ],
+    });
+
+    expect(keyring.current).toEqual({ id: '2', password: newPassword });
+    expect(keyring.passwords).toEqual({ 2: newPassword, 1: oldPassword });
+  });
+});
+
+describe('isSealedWithOldPassword', () => {
+  const keyring = getCookieKeyring({
+    cookiePassword: newPassword,
+    cookiePasswords: [
+      { id: '2', password: newPassword },
+      { id: '1', password: oldPassword },
+    ],
+  });
+
+  it('tells current seals from seals made with an older password', async () => {
+    const current = await sessionEncryption.sealData(
+      { a: 1 },
+      sealOptions(keyring),
+    );
+    const old = await sessionEncryption.sealData(
+      { a: 1 },
+      { password: oldPassword },
+    );
+
+    expect(isSealedWithOldPassword(sessionEncryption, keyring, current)).toBe(
+      false,
+    );
+    expect(isSealedWithOldPassword(sessionEncryption, keyring, old)).toBe(true);
+    await expect(
+      sessionEncryption.unsealData(old, unsealOptions(keyring)),
+    ).resolves.toEqual({ a: 1 });
+  });
+
+  it('is false when the encryption cannot read the password ID', () => {
+    const opaque = {
+      sealData: async () => 'sealed',
+      unsealData: async <T>() => ({}) as T,
+    };
+
+    expect(isSealedWithOldPassword(opaque, keyring, 'sealed')).toBe(false);
+  });
+});
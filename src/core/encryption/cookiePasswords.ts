@@ -0,0 +1,70 @@
+import type { AuthKitConfig, CookiePassword } from '../config/types.js';
+import type { SessionEncryption } from '../session/types.js';
+
+/** ID of seals made with `cookiePassword` alone. */
+export const DEFAULT_PASSWORD_ID = '1';
+
+/**
+ * The configured cookie passwords: `current` seals, `passwords` unseal.
+ */
+export interface CookieKeyring {
+  current: CookiePassword;
+  passwords: Record<string, string>;
+}
+
+/**
+ * Resolve `cookiePasswords` (or the single `cookiePassword`, as ID `1`)
+ * into a keyring.
+ */
+export function getCookieKeyring(
+  config: Pick<AuthKitConfig, 'cookiePassword' | 'cookiePasswords'>,
+): CookieKeyring {
+  const list = config.cookiePasswords ?? [];
+  const [current] = list;
+  if (!current) {
+    const password = config.cookiePassword;
+    return {
+      current: { id: DEFAULT_PASSWORD_ID, password },
+      passwords: { [DEFAULT_PASSWORD_ID]: password },
+    };
+  }
+
+  const passwords: Record<string, string> = {};
+  for (const { id, password } of list) {
+    passwords[id] ??= password;
+  }
+  return { current, passwords };
+}
+
+/** `sealData` options sealing with the current password. */
+export function sealOptions(keyring: CookieKeyring, ttl?: number) {
+  return {
+    password: keyring.current.password,
+    passwordId: keyring.current.id,
+    ttl,
+  };
+}
+
+/** `unsealData` options accepting every configured password. */
+export function unsealOptions(keyring: CookieKeyring, ttl?: number) {
+  return {
+    password: keyring.current.password,
+    passwords: keyring.passwords,
+    ttl,
+  };
+}
+
+/**
+ * True when `sealed` was made with a password other than the current one,
+ * or in a format the encryption wants replaced (`needsReseal`). False when
+ * the encryption can't tell.
+ */
+export function isSealedWithOldPassword(
+  encryption: SessionEncryption,
+  keyring: CookieKeyring,
+  sealed: string,
+): boolean {
+  if (encryption.needsReseal?.(sealed)) return true;
+  const id = encryption.getPasswordId?.(sealed);
+  return id !== undefined && id !== keyring.current.id;
+}
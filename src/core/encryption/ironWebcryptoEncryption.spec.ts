@@ -65,6 +65,54 @@ describe('ironWebcryptoEncryption', () => {
     });
   });
 
+  describe('password rotation', () => {
+    const newPassword = 'a-newer-test-password-that-is-32-characters-long';
+
+    it('embeds the password ID, defaulting to 1', async () => {
+      const legacy = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+      const rotated = await encryption.sealData(testData, {
+        password: newPassword,
+        passwordId: 'v2',
+      });
+
+      expect(encryption.getPasswordId(legacy)).toBe('1');
+      expect(encryption.getPasswordId(rotated)).toBe('v2');
+      expect(encryption.getPasswordId('not-a-seal')).toBeUndefined();
+    });
+
+    it('unseals with the password matching the embedded ID', async () => {
+      const passwords = { v2: newPassword, 1: testPassword };
+      const legacy = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+      const rotated = await encryption.sealData(testData, {
+        password: newPassword,
+        passwordId: 'v2',
+      });
+
+      for (const sealed of [legacy, rotated]) {
+        await expect(
+          encryption.unsealData(sealed, { password: newPassword, passwords }),
+        ).resolves.toEqual(testData);
+      }
+    });
+
+    it('fails when the embedded ID is not configured', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      await expect(
+        encryption.unsealData(sealed, {
+          password: newPassword,
+          passwords: { v2: newPassword },
+        }),
+      ).rejects.toThrow();
+    });
+  });
+
   describe('TTL enforcement', () => {
     beforeEach(() => {
       vi.useFakeTimers();
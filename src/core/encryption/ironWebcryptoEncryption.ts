@@ -21,14 +21,29 @@ export class SessionEncryption implements SessionEncryptionInterface {
     return { sealWithoutVersion, tokenVersion };
   }
 
+  // Read the password ID from an iron seal (`Fe26.2*<id>*...`)
+  getPasswordId(encryptedData: string): string | undefined {
+    const { sealWithoutVersion } = this.parseSeal(encryptedData);
+    const [prefix, passwordId] = sealWithoutVersion.split('*');
+    return prefix === 'Fe26.2' && passwordId ? passwordId : undefined;
+  }
+
   // Encrypt data in a way that's compatible with iron-session
   async sealData(
     data: unknown,
-    { password, ttl = 0 }: { password: string; ttl?: number | undefined },
+    {
+      password,
+      passwordId = '1',
+      ttl = 0,
+    }: {
+      password: string;
+      passwordId?: string | undefined;
+      ttl?: number | undefined;
+    },
   ) {
     // Format password as iron-session expects
     const passwordObj = {
-      id: '1',
+      id: passwordId,
       secret: password,
     };
 
@@ -58,13 +73,21 @@ export class SessionEncryption implements SessionEncryptionInterface {
   // Decrypt data from iron-session with HMAC verification
   async unsealData<T = unknown>(
     encryptedData: string,
-    { password, ttl = 0 }: { password: string; ttl?: number | undefined },
+    {
+      password,
+      passwords,
+      ttl = 0,
+    }: {
+      password: string;
+      passwords?: Record<string, string> | undefined;
+      ttl?: number | undefined;
+    },
   ): Promise<T> {
     // First, parse the seal to extract the version
     const { sealWithoutVersion, tokenVersion } = this.parseSeal(encryptedData);
 
     // Format password as a map like iron-session expects
-    const passwordMap = { 1: password };
+    const passwordMap = passwords ?? { 1: password };
 
     // Use iron-webcrypto's unseal function
     const data = await unsealData(sealWithoutVersion, passwordMap, {
@@ -0,0 +1,192 @@
+import ironWebcryptoEncryption from './ironWebcryptoEncryption.js';
+import jweEncryption, { JweSessionEncryption } from './jweEncryption.js';
+
+const testPassword = 'this-is-a-test-password-that-is-32-characters-long!';
+const newPassword = 'a-newer-test-password-that-is-32-characters-long!';
+const testData = {
+  userId: '123',
+  email: 'test@example.com',
+};
+
+describe('jweEncryption', () => {
+  const encryption = new JweSessionEncryption();
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('seal/unseal', () => {
+    it('round-trips data correctly', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+      const unsealed = await encryption.unsealData(sealed, {
+        password: testPassword,
+      });
+
+      expect(unsealed).toEqual(testData);
+    });
+
+    it('produces a dir + A256GCM compact JWE', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+      const [header = ''] = sealed.split('.');
+
+      expect(sealed.split('.')).toHaveLength(5);
+      expect(JSON.parse(Buffer.from(header, 'base64url').toString())).toEqual({
+        alg: 'dir',
+        enc: 'A256GCM',
+        kid: '1',
+      });
+    });
+
+    it('fails with wrong password', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      await expect(
+        encryption.unsealData(sealed, {
+          password: 'wrong-password-that-is-32-chars!!',
+        }),
+      ).rejects.toThrow();
+    });
+
+    it('fails when the ciphertext is tampered with', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+      const parts = sealed.split('.');
+      const ciphertext = parts[3] ?? '';
+      parts[3] = `${ciphertext[0] === 'A' ? 'B' : 'A'}${ciphertext.slice(1)}`;
+
+      await expect(
+        encryption.unsealData(parts.join('.'), { password: testPassword }),
+      ).rejects.toThrow();
+    });
+
+    it('rejects passwords shorter than 32 characters', async () => {
+      await expect(
+        encryption.sealData(testData, { password: 'too-short' }),
+      ).rejects.toThrow('at least 32 characters');
+    });
+  });
+
+  describe('ttl', () => {
+    it('unseals before the ttl elapses', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+        ttl: 600,
+      });
+
+      vi.setSystemTime(new Date('2026-01-01T00:10:30Z'));
+
+      await expect(
+        encryption.unsealData(sealed, { password: testPassword }),
+      ).resolves.toEqual(testData);
+    });
+
+    it('rejects seals past their ttl plus clock skew', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+        ttl: 600,
+      });
+
+      vi.setSystemTime(new Date('2026-01-01T00:11:01Z'));
+
+      await expect(
+        encryption.unsealData(sealed, { password: testPassword }),
+      ).rejects.toThrow('Expired seal');
+    });
+
+    it('never expires seals made without a ttl', async () => {
+      vi.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      vi.setSystemTime(new Date('2036-01-01T00:00:00Z'));
+
+      await expect(
+        encryption.unsealData(sealed, { password: testPassword }),
+      ).resolves.toEqual(testData);
+    });
+  });
+
+  describe('password rotation', () => {
+    const passwords = { 2: newPassword, 1: testPassword };
+
+    it('unseals with the password matching the kid', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      expect(encryption.getPasswordId(sealed)).toBe('1');
+      await expect(
+        encryption.unsealData(sealed, { password: newPassword, passwords }),
+      ).resolves.toEqual(testData);
+    });
+
+    it('fails for a kid that is not configured', async () => {
+      const sealed = await encryption.sealData(testData, {
+        password: newPassword,
+        passwordId: '3',
+      });
+
+      await expect(
+        encryption.unsealData(sealed, { password: newPassword, passwords }),
+      ).rejects.toThrow('Unknown password ID');
+    });
+
+    it('returns undefined for an unparseable seal', () => {
+      expect(encryption.getPasswordId('not-a-seal')).toBeUndefined();
+    });
+  });
+
+  describe('iron migration', () => {
+    it('unseals iron seals through the legacy encryption', async () => {
+      const ironSealed = await ironWebcryptoEncryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      await expect(
+        jweEncryption.unsealData(ironSealed, { password: testPassword }),
+      ).resolves.toEqual(testData);
+      expect(jweEncryption.getPasswordId(ironSealed)).toBe('1');
+    });
+
+    it('flags iron seals, not JWE ones, as needing a re-seal', async () => {
+      const ironSealed = await ironWebcryptoEncryption.sealData(testData, {
+        password: testPassword,
+      });
+      const sealed = await jweEncryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      expect(jweEncryption.needsReseal(ironSealed)).toBe(true);
+      expect(jweEncryption.needsReseal(sealed)).toBe(false);
+    });
+
+    it('seals new data as JWE', async () => {
+      const sealed = await jweEncryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      expect(sealed).not.toMatch(/~2$/);
+      expect(sealed.split('.')).toHaveLength(5);
+    });
+
+    it('rejects iron seals without a legacy encryption', async () => {
+      const ironSealed = await ironWebcryptoEncryption.sealData(testData, {
+        password: testPassword,
+      });
+
+      await expect(
+        encryption.unsealData(ironSealed, { password: testPassword }),
+      ).rejects.toThrow('without legacy encryption');
+    });
+  });
+});
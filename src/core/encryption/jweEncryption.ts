@@ -0,0 +1,164 @@
+import { CompactEncrypt, compactDecrypt, decodeProtectedHeader } from 'jose';
+import type { SessionEncryption as SessionEncryptionInterface } from '../session/types.js';
+import ironWebcryptoEncryption from './ironWebcryptoEncryption.js';
+
+const MIN_PASSWORD_LENGTH = 32;
+const TIMESTAMP_SKEW_SEC = 60;
+const HKDF_INFO = new TextEncoder().encode('authkit-session JWE A256GCM');
+
+/** True for seals made by `ironWebcryptoEncryption` (`Fe26.2*...~2`). */
+function isIronSeal(encryptedData: string): boolean {
+  return encryptedData.startsWith('Fe26.');
+}
+
+async function deriveKey(password: string): Promise<Uint8Array> {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new Error(
+      `Password must be at least ${MIN_PASSWORD_LENGTH} characters`,
+    );
+  }
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(password),
+    'HKDF',
+    false,
+    ['deriveBits'],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(), info: HKDF_INFO },
+    material,
+    256,
+  );
+  return new Uint8Array(bits);
+}
+
+/**
+ * Seals data as a compact JWE (`dir` + `A256GCM`), with the 256-bit key
+ * derived from the password via HKDF-SHA256.
+ *
+ * The password ID goes in the `kid` header and, with a `ttl`, the expiry in
+ * an `exp` header (seconds), both covered by the GCM tag. As with iron,
+ * expiry is fixed at seal time; the `ttl` passed to `unsealData` is ignored.
+ *
+ * With a `legacy` encryption, iron seals (`Fe26.2*...~2`) are still unsealed
+ * by it, so switching over signs no one out. New seals are always JWE;
+ * `needsReseal` flags iron seals, so `withAuth` re-seals them on their next
+ * request.
+ */
+export class JweSessionEncryption implements SessionEncryptionInterface {
+  private readonly keys = new Map<string, Promise<Uint8Array>>();
+  private readonly legacy: SessionEncryptionInterface | undefined;
+
+  /**
+   * @param options.legacy - Encryption used to unseal iron seals, e.g.
+   *   `ironWebcryptoEncryption`. Without it they fail to unseal.
+   */
+  constructor(options: { legacy?: SessionEncryptionInterface } = {}) {
+    this.legacy = options.legacy;
+  }
+
+  // Read the password ID from the `kid` header
+  getPasswordId(encryptedData: string): string | undefined {
+    if (isIronSeal(encryptedData)) {
+      return this.legacy?.getPasswordId?.(encryptedData);
+    }
+    try {
+      const { kid } = decodeProtectedHeader(encryptedData);
+      return kid;
+    } catch {
+      return undefined;
+    }
+  }
+
+  // Iron seals share password IDs with JWE ones, so flag them by format
+  needsReseal(encryptedData: string): boolean {
+    return isIronSeal(encryptedData);
+  }
+
+  async sealData(
+    data: unknown,
+    {
+      password,
+      passwordId = '1',
+      ttl = 0,
+    }: {
+      password: string;
+      passwordId?: string | undefined;
+      ttl?: number | undefined;
+    },
+  ) {
+    const key = await this.getKey(password);
+    const exp = ttl ? Math.floor(Date.now() / 1000) + ttl : undefined;
+
+    return new CompactEncrypt(new TextEncoder().encode(JSON.stringify(data)))
+      .setProtectedHeader({ alg: 'dir', enc: 'A256GCM', kid: passwordId, exp })
+      .encrypt(key);
+  }
+
+  async unsealData<T = unknown>(
+    encryptedData: string,
+    {
+      password,
+      passwords,
+      ttl,
+    }: {
+      password: string;
+      passwords?: Record<string, string> | undefined;
+      ttl?: number | undefined;
+    },
+  ): Promise<T> {
+    if (isIronSeal(encryptedData)) {
+      if (!this.legacy) {
+        throw new Error('Cannot unseal an iron seal without legacy encryption');
+      }
+      return this.legacy.unsealData<T>(encryptedData, {
+        password,
+        passwords,
+        ttl,
+      });
+    }
+
+    const passwordMap = passwords ?? { 1: password };
+    const { plaintext, protectedHeader } = await compactDecrypt(
+      encryptedData,
+      async header => {
+        const secret = passwordMap[header.kid ?? ''];
+        if (!secret) {
+          throw new Error(`Unknown password ID: ${header.kid}`);
+        }
+        return this.getKey(secret);
+      },
+      {
+        keyManagementAlgorithms: ['dir'],
+        contentEncryptionAlgorithms: ['A256GCM'],
+      },
+    );
+
+    const { exp } = protectedHeader;
+    if (exp !== undefined) {
+      if (typeof exp !== 'number') throw new Error('Invalid expiration');
+      if (exp <= Date.now() / 1000 - TIMESTAMP_SKEW_SEC) {
+        throw new Error('Expired seal');
+      }
+    }
+
+    return JSON.parse(new TextDecoder().decode(plaintext)) as T;
+  }
+
+  private getKey(password: string): Promise<Uint8Array> {
+    let key = this.keys.get(password);
+    if (!key) {
+      key = deriveKey(password);
+      key.catch(() => this.keys.delete(password));
+      this.keys.set(password, key);
+    }
+    return key;
+  }
+}
+
+/** JWE encryption that still unseals iron seals. */
+const jweEncryption = new JweSessionEncryption({
+  legacy: ironWebcryptoEncryption,
+});
+
+export default jweEncryption;
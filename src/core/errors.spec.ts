@@ -1,9 +1,11 @@
 import {
+  AccessTokenError,
   AuthKitError,
   OAuthStateMismatchError,
   PKCECookieMissingError,
   PKCEPayloadTooLargeError,
   SessionEncryptionError,
+  SessionPayloadTooLargeError,
   TokenValidationError,
   TokenRefreshError,
 } from './errors.js';
@@ -41,6 +43,22 @@ describe('TokenRefreshError context', () => {
   });
 });
 
+describe('AccessTokenError', () => {
+  it('carries the rejection reason and cause', () => {
+    const cause = new Error('exp claim timestamp check failed');
+    const error = new AccessTokenError(
+      'Access token rejected',
+      'expired',
+      cause,
+    );
+
+    expect(error.name).toBe('AccessTokenError');
+    expect(error.reason).toBe('expired');
+    expect(error.cause).toBe(cause);
+    expect(error).toBeInstanceOf(AuthKitError);
+  });
+});
+
 describe('error subclasses', () => {
   const cases: Array<[string, new (msg: string) => AuthKitError]> = [
     ['SessionEncryptionError', SessionEncryptionError],
@@ -49,6 +67,7 @@ describe('error subclasses', () => {
     ['OAuthStateMismatchError', OAuthStateMismatchError],
     ['PKCECookieMissingError', PKCECookieMissingError],
     ['PKCEPayloadTooLargeError', PKCEPayloadTooLargeError],
+    ['SessionPayloadTooLargeError', SessionPayloadTooLargeError],
   ];
 
   it.each(cases)(
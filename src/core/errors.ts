@@ -44,6 +44,13 @@ export class PKCEPayloadTooLargeError extends AuthKitError {
   }
 }
 
+export class SessionPayloadTooLargeError extends AuthKitError {
+  constructor(message: string, cause?: unknown) {
+    super(message, cause);
+    this.name = 'SessionPayloadTooLargeError';
+  }
+}
+
 export class TokenRefreshError extends AuthKitError {
   readonly userId?: string;
   readonly sessionId?: string;
@@ -59,3 +66,36 @@ export class TokenRefreshError extends AuthKitError {
     this.sessionId = context?.sessionId;
   }
 }
+
+/**
+ * Why a bearer access token was rejected by `createAccessTokenVerifier`.
+ *
+ * - `missing_token`: no `Authorization` header (or an empty token).
+ * - `invalid_authorization_header`: the header isn't `Bearer <token>`.
+ * - `expired` / `invalid_signature` / `malformed` / `jwks_unavailable`: see
+ *   `TokenVerificationResult`.
+ * - `invalid_claims`: a claim didn't match (see `TokenVerificationResult`),
+ *   or the claims failed the verifier's `claimsSchema`.
+ */
+export type AccessTokenErrorReason =
+  | 'missing_token'
+  | 'invalid_authorization_header'
+  | 'expired'
+  | 'invalid_signature'
+  | 'malformed'
+  | 'jwks_unavailable'
+  | 'invalid_claims';
+
+export class AccessTokenError extends AuthKitError {
+  readonly reason: AccessTokenErrorReason;
+
+  constructor(
+    message: string,
+    reason: AccessTokenErrorReason,
+    cause?: unknown,
+  ) {
+    super(message, cause);
+    this.name = 'AccessTokenError';
+    this.reason = reason;
+  }
+}
@@ -0,0 +1,115 @@
+/**
+ * Structured fields attached to a log entry.
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Injectable logger. Methods take a message and optional structured fields,
+ * so it maps directly onto pino, winston, bunyan or `console`.
+ *
+ * AuthKit redacts tokens and secrets before calling it.
+ */
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const noop = () => {};
+
+/** Logger that discards everything. The default. */
+export const noopLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Field names whose values are always secret, at any depth. Names of things
+ * (`cookieName`) are not secret.
+ */
+const SECRET_KEY_PATTERN =
+  /token|password|secret|api_?key|authorization|cookie|verifier|^code$|seal|encrypted|session_?data|jwt/i;
+const NAME_KEY_PATTERN = /name$/i;
+
+/** JWTs / JWEs and iron seals anywhere inside a string. */
+const SECRET_VALUE_PATTERN =
+  /[\w-]{8,}\.[\w-]{8,}\.[\w-]{8,}(?:\.[\w-]+\.[\w-]+)?|Fe26\.2\*[^\s"',]+/g;
+
+const MAX_DEPTH = 5;
+
+/**
+ * Redact secrets from log fields: values under secret-looking keys (tokens,
+ * passwords, cookies, verifiers, ...) are replaced, JWTs and sealed
+ * sessions embedded in any string are masked, and errors are reduced to
+ * their name and message.
+ */
+export function redactFields(fields: LogFields): LogFields {
+  return redactValue(fields, 0) as LogFields;
+}
+
+function redactValue(value: unknown, depth: number): unknown {
+  if (typeof value === 'string') {
+    return value.replace(SECRET_VALUE_PATTERN, REDACTED);
+  }
+  if (value instanceof Error) {
+    return {
+      name: value.name,
+      message: redactValue(value.message, depth),
+    };
+  }
+  if (typeof value !== 'object' || value === null) {
+    return value;
+  }
+  if (depth >= MAX_DEPTH) {
+    return '[Truncated]';
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => redactValue(item, depth + 1));
+  }
+
+  const redacted: LogFields = {};
+  for (const [key, entry] of Object.entries(value)) {
+    redacted[key] =
+      SECRET_KEY_PATTERN.test(key) &&
+      !NAME_KEY_PATTERN.test(key) &&
+      entry != null
+        ? REDACTED
+        : redactValue(entry, depth + 1);
+  }
+  return redacted;
+}
+
+/**
+ * Wrap a logger so every message and field set is redacted first, and a
+ * throwing logger can't break the auth flow.
+ */
+export function createRedactingLogger(logger: Logger = noopLogger): Logger {
+  if (logger === noopLogger) return noopLogger;
+
+  const forward =
+    (level: keyof Logger) =>
+    (message: string, fields?: LogFields): void => {
+      try {
+        const safeMessage = message.replace(SECRET_VALUE_PATTERN, REDACTED);
+        if (fields) {
+          logger[level](safeMessage, redactFields(fields));
+        } else {
+          logger[level](safeMessage);
+        }
+      } catch {
+        // Logging must never affect authentication.
+      }
+    };
+
+  return {
+    debug: forward('debug'),
+    info: forward('info'),
+    warn: forward('warn'),
+    error: forward('error'),
+  };
+}
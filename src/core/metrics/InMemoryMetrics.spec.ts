@@ -0,0 +1,55 @@
+import { InMemoryMetrics } from './InMemoryMetrics.js';
+
+describe('InMemoryMetrics', () => {
+  it('counts per label set, regardless of label order', () => {
+    const metrics = new InMemoryMetrics();
+
+    metrics.increment('refreshes', { result: 'success', region: 'eu' });
+    metrics.increment('refreshes', { region: 'eu', result: 'success' });
+    metrics.increment('refreshes', { result: 'failure', region: 'eu' });
+
+    expect(
+      metrics.getCounter('refreshes', { result: 'success', region: 'eu' }),
+    ).toBe(2);
+    expect(
+      metrics.getCounter('refreshes', { result: 'failure', region: 'eu' }),
+    ).toBe(1);
+    expect(metrics.getCounter('refreshes')).toBe(0);
+  });
+
+  it('records histograms with cumulative buckets', () => {
+    const metrics = new InMemoryMetrics({ buckets: [0.1, 1] });
+
+    metrics.observe('duration', 0.05);
+    metrics.observe('duration', 0.5);
+    metrics.observe('duration', 3);
+
+    expect(metrics.getHistogram('duration')).toEqual({
+      name: 'duration',
+      labels: {},
+      buckets: [
+        { le: 0.1, count: 1 },
+        { le: 1, count: 2 },
+        { le: Infinity, count: 3 },
+      ],
+      sum: 3.55,
+      count: 3,
+    });
+    expect(metrics.getHistogram('other')).toBeUndefined();
+  });
+
+  it('snapshots and resets every series', () => {
+    const metrics = new InMemoryMetrics();
+    metrics.increment('sign_ins', { result: 'success' });
+    metrics.observe('duration', 0.2);
+
+    const snapshot = metrics.snapshot();
+    expect(snapshot.counters).toEqual([
+      { name: 'sign_ins', labels: { result: 'success' }, value: 1 },
+    ]);
+    expect(snapshot.histograms).toHaveLength(1);
+
+    metrics.reset();
+    expect(metrics.snapshot()).toEqual({ counters: [], histograms: [] });
+  });
+});
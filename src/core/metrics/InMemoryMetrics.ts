@@ -0,0 +1,152 @@
+import type { MetricLabels, MetricsSink } from './metrics.js';
+
+/** Upper bounds in seconds, sized for a WorkOS call plus a rate-limit wait. */
+export const DEFAULT_HISTOGRAM_BUCKETS = [
+  0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+] as const;
+
+export interface CounterSample {
+  name: string;
+  labels: MetricLabels;
+  value: number;
+}
+
+export interface HistogramSample {
+  name: string;
+  labels: MetricLabels;
+  /** Cumulative counts per upper bound, ending with `+Inf`. */
+  buckets: { le: number; count: number }[];
+  sum: number;
+  count: number;
+}
+
+export interface MetricsSnapshot {
+  counters: CounterSample[];
+  histograms: HistogramSample[];
+}
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+/** Identifies a series regardless of the order labels were given in. */
+function seriesKey(labels: MetricLabels): string {
+  return JSON.stringify(
+    Object.entries(labels).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)),
+  );
+}
+
+/**
+ * `MetricsSink` that keeps counters and histograms in process memory.
+ *
+ * Use it in tests to assert on recorded metrics, or in a single process
+ * with `formatPrometheusMetrics` to serve a scrape endpoint.
+ */
+export class InMemoryMetrics implements MetricsSink {
+  private readonly buckets: readonly number[];
+  private readonly counters = new Map<
+    string,
+    Map<string, { labels: MetricLabels; value: number }>
+  >();
+  private readonly histograms = new Map<string, Map<string, HistogramSeries>>();
+
+  /**
+   * @param options.buckets - Histogram upper bounds, ascending. Defaults to
+   *   {@link DEFAULT_HISTOGRAM_BUCKETS}.
+   */
+  constructor(options: { buckets?: readonly number[] } = {}) {
+    this.buckets = options.buckets ?? DEFAULT_HISTOGRAM_BUCKETS;
+  }
+
+  increment(name: string, labels: MetricLabels = {}): void {
+    const series = this.counters.get(name) ?? new Map();
+    const key = seriesKey(labels);
+    const current = series.get(key);
+    series.set(key, {
+      labels: { ...labels },
+      value: (current?.value ?? 0) + 1,
+    });
+    this.counters.set(name, series);
+  }
+
+  observe(name: string, value: number, labels: MetricLabels = {}): void {
+    const series =
+      this.histograms.get(name) ?? new Map<string, HistogramSeries>();
+    const key = seriesKey(labels);
+    const histogram = series.get(key) ?? {
+      labels: { ...labels },
+      bucketCounts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    };
+
+    const index = this.buckets.findIndex(bound => value <= bound);
+    if (index !== -1) {
+      histogram.bucketCounts[index] = (histogram.bucketCounts[index] ?? 0) + 1;
+    }
+    histogram.sum += value;
+    histogram.count += 1;
+
+    series.set(key, histogram);
+    this.histograms.set(name, series);
+  }
+
+  /** Current value of a counter series, 0 if never incremented. */
+  getCounter(name: string, labels: MetricLabels = {}): number {
+    return this.counters.get(name)?.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  /** A histogram series, or undefined if nothing was observed. */
+  getHistogram(
+    name: string,
+    labels: MetricLabels = {},
+  ): HistogramSample | undefined {
+    const histogram = this.histograms.get(name)?.get(seriesKey(labels));
+    return histogram && this.toSample(name, histogram);
+  }
+
+  /** All recorded series. */
+  snapshot(): MetricsSnapshot {
+    const counters: CounterSample[] = [];
+    for (const [name, series] of this.counters) {
+      for (const { labels, value } of series.values()) {
+        counters.push({ name, labels: { ...labels }, value });
+      }
+    }
+
+    const histograms: HistogramSample[] = [];
+    for (const [name, series] of this.histograms) {
+      for (const histogram of series.values()) {
+        histograms.push(this.toSample(name, histogram));
+      }
+    }
+
+    return { counters, histograms };
+  }
+
+  /** Drop every recorded series. */
+  reset(): void {
+    this.counters.clear();
+    this.histograms.clear();
+  }
+
+  private toSample(name: string, histogram: HistogramSeries): HistogramSample {
+    let cumulative = 0;
+    const buckets = this.buckets.map((le, i) => {
+      cumulative += histogram.bucketCounts[i] ?? 0;
+      return { le, count: cumulative };
+    });
+    buckets.push({ le: Infinity, count: histogram.count });
+
+    return {
+      name,
+      labels: { ...histogram.labels },
+      buckets,
+      sum: histogram.sum,
+      count: histogram.count,
+    };
+  }
+}
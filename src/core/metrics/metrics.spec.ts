@@ -0,0 +1,24 @@
+import { createSafeMetrics, noopMetrics } from './metrics.js';
+
+describe('createSafeMetrics', () => {
+  it('returns the no-op sink when none is given', () => {
+    expect(createSafeMetrics()).toBe(noopMetrics);
+  });
+
+  it('forwards to the sink and swallows its errors', () => {
+    const sink = {
+      increment: vi.fn(() => {
+        throw new Error('sink down');
+      }),
+      observe: vi.fn(() => {
+        throw new Error('sink down');
+      }),
+    };
+    const metrics = createSafeMetrics(sink);
+
+    expect(() => metrics.increment('a', { result: 'success' })).not.toThrow();
+    expect(() => metrics.observe('b', 1)).not.toThrow();
+    expect(sink.increment).toHaveBeenCalledWith('a', { result: 'success' });
+    expect(sink.observe).toHaveBeenCalledWith('b', 1, undefined);
+  });
+});
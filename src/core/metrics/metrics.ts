@@ -0,0 +1,70 @@
+/** Label names and values identifying one series of a metric. */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Pluggable metrics sink. Map it onto prom-client, StatsD, OpenTelemetry
+ * metrics, or use `InMemoryMetrics`.
+ */
+export interface MetricsSink {
+  /** Add one to a counter. */
+  increment(name: string, labels?: MetricLabels): void;
+  /** Record a value in a histogram. */
+  observe(name: string, value: number, labels?: MetricLabels): void;
+}
+
+/**
+ * Names of the metrics AuthKit records.
+ */
+export const AuthMetric = {
+  /** Counter of OAuth callbacks, labelled `result`: `success` / `failure`. */
+  signIns: 'authkit_sign_ins',
+  /**
+   * Counter of token refreshes, labelled `result`: `success`, `failure`,
+   * `rate_limited` (a rate limit was hit and the refresh retried) or
+   * `deduped` (another refresh's result was reused).
+   */
+  refreshes: 'authkit_refreshes',
+  /** Counter of session cookies that couldn't be decrypted. */
+  decryptFailures: 'authkit_decrypt_failures',
+  /**
+   * Counter of callbacks rejected by the PKCE state check, labelled
+   * `reason`: `missing_state`, `missing_cookie` or `mismatch`.
+   */
+  pkceStateMismatches: 'authkit_pkce_state_mismatches',
+  /** Counter of PKCE verifier cookies cleared by `clearPendingVerifierByName`. */
+  verifierEvictions: 'authkit_verifier_evictions',
+  /** Histogram of WorkOS refresh call durations in seconds, retries included. */
+  refreshDuration: 'authkit_refresh_duration_seconds',
+} as const;
+
+/** Sink that discards everything. The default. */
+export const noopMetrics: MetricsSink = {
+  increment: () => {},
+  observe: () => {},
+};
+
+/**
+ * Wrap a sink so a throwing implementation can't break the auth flow.
+ */
+export function createSafeMetrics(
+  sink: MetricsSink = noopMetrics,
+): MetricsSink {
+  if (sink === noopMetrics) return noopMetrics;
+
+  return {
+    increment(name, labels) {
+      try {
+        sink.increment(name, labels);
+      } catch {
+        // Metrics must never affect authentication.
+      }
+    },
+    observe(name, value, labels) {
+      try {
+        sink.observe(name, value, labels);
+      } catch {
+        // Metrics must never affect authentication.
+      }
+    },
+  };
+}
@@ -0,0 +1,53 @@
+import { InMemoryMetrics } from './InMemoryMetrics.js';
+import { formatPrometheusMetrics } from './prometheus.js';
+
+describe('formatPrometheusMetrics', () => {
+  it('renders counters with a _total suffix', () => {
+    const metrics = new InMemoryMetrics();
+    metrics.increment('authkit_refreshes', { result: 'success' });
+    metrics.increment('authkit_refreshes', { result: 'failure' });
+    metrics.increment('authkit_decrypt_failures');
+
+    expect(formatPrometheusMetrics(metrics.snapshot())).toBe(
+      [
+        '# TYPE authkit_refreshes_total counter',
+        'authkit_refreshes_total{result="success"} 1',
+        'authkit_refreshes_total{result="failure"} 1',
+        '# TYPE authkit_decrypt_failures_total counter',
+        'authkit_decrypt_failures_total 1',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders histograms as buckets, sum and count', () => {
+    const metrics = new InMemoryMetrics({ buckets: [0.5, 1] });
+    metrics.observe('authkit_refresh_duration_seconds', 0.25);
+    metrics.observe('authkit_refresh_duration_seconds', 2);
+
+    expect(formatPrometheusMetrics(metrics.snapshot())).toBe(
+      [
+        '# TYPE authkit_refresh_duration_seconds histogram',
+        'authkit_refresh_duration_seconds_bucket{le="0.5"} 1',
+        'authkit_refresh_duration_seconds_bucket{le="1"} 1',
+        'authkit_refresh_duration_seconds_bucket{le="+Inf"} 2',
+        'authkit_refresh_duration_seconds_sum 2.25',
+        'authkit_refresh_duration_seconds_count 2',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('escapes label values and sanitizes names', () => {
+    const metrics = new InMemoryMetrics();
+    metrics.increment('authkit.errors', { message: 'a "b"\\c\nd' });
+
+    expect(formatPrometheusMetrics(metrics.snapshot())).toContain(
+      'authkit_errors_total{message="a \\"b\\"\\\\c\\nd"} 1',
+    );
+  });
+
+  it('renders nothing for an empty snapshot', () => {
+    expect(formatPrometheusMetrics({ counters: [], histograms: [] })).toBe('');
+  });
+});
@@ -0,0 +1,86 @@
+import type { MetricsSnapshot } from './InMemoryMetrics.js';
+import type { MetricLabels } from './metrics.js';
+
+/** Content-Type of the Prometheus text exposition format. */
+export const PROMETHEUS_CONTENT_TYPE =
+  'text/plain; version=0.0.4; charset=utf-8';
+
+function metricName(name: string): string {
+  return name.replace(/[^a-zA-Z0-9_:]/g, '_');
+}
+
+function formatNumber(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+function escapeLabelValue(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: MetricLabels): string {
+  const pairs = Object.entries(labels).map(
+    ([key, value]) => `${metricName(key)}="${escapeLabelValue(value)}"`,
+  );
+  return pairs.length ? `{${pairs.join(',')}}` : '';
+}
+
+function groupByName<T extends { name: string }>(
+  samples: T[],
+): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const sample of samples) {
+    const group = groups.get(sample.name) ?? [];
+    group.push(sample);
+    groups.set(sample.name, group);
+  }
+  return groups;
+}
+
+/**
+ * Render a metrics snapshot in the Prometheus text exposition format, for a
+ * scrape endpoint. Counters get a `_total` suffix.
+ *
+ * @example
+ * ```typescript
+ * const metrics = new InMemoryMetrics();
+ * const authService = createAuthService({ sessionStorageFactory, metrics });
+ *
+ * app.get('/metrics', () =>
+ *   new Response(formatPrometheusMetrics(metrics.snapshot()), {
+ *     headers: { 'Content-Type': PROMETHEUS_CONTENT_TYPE },
+ *   }),
+ * );
+ * ```
+ */
+export function formatPrometheusMetrics(snapshot: MetricsSnapshot): string {
+  const lines: string[] = [];
+
+  for (const [name, samples] of groupByName(snapshot.counters)) {
+    const base = metricName(name);
+    const total = base.endsWith('_total') ? base : `${base}_total`;
+    lines.push(`# TYPE ${total} counter`);
+    for (const { labels, value } of samples) {
+      lines.push(`${total}${formatLabels(labels)} ${formatNumber(value)}`);
+    }
+  }
+
+  for (const [name, samples] of groupByName(snapshot.histograms)) {
+    const base = metricName(name);
+    lines.push(`# TYPE ${base} histogram`);
+    for (const { labels, buckets, sum, count } of samples) {
+      for (const { le, count: bucketCount } of buckets) {
+        const bucketLabels = formatLabels({ ...labels, le: formatNumber(le) });
+        lines.push(`${base}_bucket${bucketLabels} ${bucketCount}`);
+      }
+      lines.push(`${base}_sum${formatLabels(labels)} ${formatNumber(sum)}`);
+      lines.push(`${base}_count${formatLabels(labels)} ${count}`);
+    }
+  }
+
+  return lines.length ? `${lines.join('\n')}\n` : '';
+}
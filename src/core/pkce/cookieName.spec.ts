@@ -50,6 +50,15 @@ describe('getPKCECookieNameForState', () => {
     expect(getPKCECookieNameForState(s)).toBe(getPKCECookieNameForState(s));
   });
 
+  it('applies a configured cookie prefix', () => {
+    expect(getPKCECookieNameForState('any-state', '__Host-')).toBe(
+      `__Host-${getPKCECookieNameForState('any-state')}`,
+    );
+    expect(getPKCECookieNameForState('any-state', '__Secure-')).toMatch(
+      /^__Secure-wos-auth-verifier-[0-9a-f]{8}$/,
+    );
+  });
+
   it('exports the prefix constant', () => {
     expect(PKCE_COOKIE_PREFIX).toBe('wos-auth-verifier');
   });
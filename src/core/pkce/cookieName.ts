@@ -1,3 +1,6 @@
+import type { CookiePrefix } from '../config/types.js';
+import { applyCookiePrefixToName } from '../session/cookiePrefix.js';
+
 /** Stable prefix for all PKCE verifier cookies. */
 export const PKCE_COOKIE_PREFIX = 'wos-auth-verifier';
 
@@ -21,7 +24,16 @@ export function fnv1a32Hex(input: string): string {
  * Derive a flow-specific PKCE verifier cookie name from the sealed
  * state blob. Each concurrent OAuth flow gets its own cookie so
  * parallel sign-ins from multiple tabs don't clobber each other.
+ *
+ * Pass the configured `cookiePrefix` so the name matches the cookie the
+ * library wrote (e.g. `__Host-wos-auth-verifier-<hash>`).
  */
-export function getPKCECookieNameForState(state: string): string {
-  return `${PKCE_COOKIE_PREFIX}-${fnv1a32Hex(state)}`;
+export function getPKCECookieNameForState(
+  state: string,
+  cookiePrefix?: CookiePrefix,
+): string {
+  return applyCookiePrefixToName(
+    `${PKCE_COOKIE_PREFIX}-${fnv1a32Hex(state)}`,
+    cookiePrefix,
+  );
 }
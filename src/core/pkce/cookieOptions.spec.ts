@@ -141,4 +141,31 @@ describe('getPKCECookieOptions', () => {
       expect(opts.domain).toBeUndefined();
     });
   });
+
+  describe('cookiePrefix', () => {
+    it('forces secure for __Secure- even on http redirect URIs', () => {
+      const opts = getPKCECookieOptions({
+        ...baseConfig,
+        redirectUri: 'http://localhost:3000/callback',
+        cookiePrefix: '__Secure-',
+        cookieDomain: 'example.com',
+      });
+
+      expect(opts.secure).toBe(true);
+      expect(opts.domain).toBe('example.com');
+    });
+
+    it('forces secure, Path=/ and no domain for __Host-', () => {
+      const opts = getPKCECookieOptions({
+        ...baseConfig,
+        redirectUri: 'http://localhost:3000/callback',
+        cookiePrefix: '__Host-',
+        cookieDomain: 'example.com',
+      });
+
+      expect(opts.secure).toBe(true);
+      expect(opts.path).toBe('/');
+      expect(opts).not.toHaveProperty('domain');
+    });
+  });
 });
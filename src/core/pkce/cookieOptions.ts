@@ -1,4 +1,5 @@
 import type { AuthKitConfig } from '../config/types.js';
+import { applyCookiePrefixAttributes } from '../session/cookiePrefix.js';
 import type { CookieOptions } from '../session/types.js';
 
 /**
@@ -28,6 +29,8 @@ export const PKCE_COOKIE_MAX_AGE = 600;
  *   quickly. The tradeoff favors DX: path-scoped cookies are invisible in
  *   Chrome DevTools' Application panel from any page outside the scoped
  *   path, which makes PKCE wiring look broken even when it works.
+ * - With `cookiePrefix` configured, the prefix's required attributes win:
+ *   `secure` is forced to `true`, and `__Host-` also drops `domain`.
  *
  * Internal helper — not exported from the package. Callers get cookie options
  * indirectly via `AuthService.createSignIn` / `clearPendingVerifier`.
@@ -50,12 +53,15 @@ export function getPKCECookieOptions(
     }
   }
 
-  return {
-    path: '/',
-    httpOnly: true,
-    secure,
-    sameSite,
-    maxAge: PKCE_COOKIE_MAX_AGE,
-    ...(config.cookieDomain ? { domain: config.cookieDomain } : {}),
-  };
+  return applyCookiePrefixAttributes(
+    {
+      path: '/',
+      httpOnly: true,
+      secure,
+      sameSite,
+      maxAge: PKCE_COOKIE_MAX_AGE,
+      ...(config.cookieDomain ? { domain: config.cookieDomain } : {}),
+    },
+    config.cookiePrefix,
+  );
 }
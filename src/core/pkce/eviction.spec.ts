@@ -17,6 +17,17 @@ describe('isPKCEVerifierCookieName', () => {
     expect(isPKCEVerifierCookieName(PKCE_COOKIE_PREFIX)).toBe(true);
   });
 
+  it('matches prefixed names', () => {
+    expect(isPKCEVerifierCookieName(`__Host-${verifier('abc')}`)).toBe(true);
+    expect(isPKCEVerifierCookieName(`__Secure-${PKCE_COOKIE_PREFIX}`)).toBe(
+      true,
+    );
+  });
+
+  it('rejects unrelated prefixed cookies', () => {
+    expect(isPKCEVerifierCookieName('__Host-wos-session')).toBe(false);
+  });
+
   it('rejects unrelated cookies', () => {
     expect(isPKCEVerifierCookieName('wos-session')).toBe(false);
     expect(isPKCEVerifierCookieName('foo')).toBe(false);
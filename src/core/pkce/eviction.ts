@@ -1,3 +1,4 @@
+import { stripCookiePrefix } from '../session/cookiePrefix.js';
 import { PKCE_COOKIE_PREFIX } from './cookieName.js';
 
 /**
@@ -14,14 +15,21 @@ export const DEFAULT_MAX_PENDING_PKCE_COOKIES = 5;
 
 /**
  * True when `name` is a PKCE verifier cookie — either the per-flow hashed
- * name (`wos-auth-verifier-<hash>`) or the legacy unsuffixed name.
+ * name (`wos-auth-verifier-<hash>`) or the legacy unsuffixed name, with or
+ * without a `__Host-` / `__Secure-` cookie prefix.
+ *
+ * Both prefixed and unprefixed names are recognized regardless of the
+ * configured `cookiePrefix`, so verifiers left over from before a prefix
+ * was enabled are still evicted.
  *
  * The hyphen boundary is required so a lookalike like
  * `wos-auth-verifierXYZ` is NOT treated as a verifier.
  */
 export function isPKCEVerifierCookieName(name: string): boolean {
+  const unprefixed = stripCookiePrefix(name);
   return (
-    name === PKCE_COOKIE_PREFIX || name.startsWith(`${PKCE_COOKIE_PREFIX}-`)
+    unprefixed === PKCE_COOKIE_PREFIX ||
+    unprefixed.startsWith(`${PKCE_COOKIE_PREFIX}-`)
   );
 }
 
@@ -1,5 +1,6 @@
 import type { WorkOS } from '@workos-inc/node';
 import type { AuthKitConfig } from '../config/types.js';
+import { getCookieKeyring } from '../encryption/cookiePasswords.js';
 import { PKCEPayloadTooLargeError } from '../errors.js';
 import { serializeCookie } from '../session/serializeCookie.js';
 import type {
@@ -75,7 +76,7 @@ export async function generateAuthorizationUrl(params: {
   const pkce = await client.pkce.generate();
   const nonce = crypto.randomUUID();
 
-  const sealedState = await sealState(encryption, config.cookiePassword, {
+  const sealedState = await sealState(encryption, getCookieKeyring(config), {
     nonce,
     codeVerifier: pkce.codeVerifier,
     returnPathname: options.returnPathname,
@@ -91,7 +92,10 @@ export async function generateAuthorizationUrl(params: {
   // returnPathname combined with near-max state, or an unusually long
   // cookieDomain attribute.
   const cookieOptions = getPKCECookieOptions(config, redirectUri);
-  const cookieName = getPKCECookieNameForState(sealedState);
+  const cookieName = getPKCECookieNameForState(
+    sealedState,
+    config.cookiePrefix,
+  );
   const serialized = serializeCookie(cookieName, sealedState, cookieOptions);
   const cookieBytes = new TextEncoder().encode(serialized).byteLength;
   if (cookieBytes > PKCE_MAX_COOKIE_BYTES) {
@@ -1,8 +1,10 @@
+import { getCookieKeyring } from '../encryption/cookiePasswords.js';
 import sessionEncryption from '../encryption/ironWebcryptoEncryption.js';
 import { SessionEncryptionError } from '../errors.js';
 import { sealState, unsealState, type PKCEStateInput } from './state.js';
 
 const testPassword = 'this-is-a-test-password-that-is-32-characters-long!';
+const testKeyring = getCookieKeyring({ cookiePassword: testPassword });
 
 const validState: PKCEStateInput = {
   nonce: '8b7b1c32-7d8f-44f9-aa51-4c3a6c8fb8d9',
@@ -13,8 +15,8 @@ const validState: PKCEStateInput = {
 
 describe('PKCE state seal/unseal', () => {
   it('round-trips a valid state', async () => {
-    const sealed = await sealState(sessionEncryption, testPassword, validState);
-    const unsealed = await unsealState(sessionEncryption, testPassword, sealed);
+    const sealed = await sealState(sessionEncryption, testKeyring, validState);
+    const unsealed = await unsealState(sessionEncryption, testKeyring, sealed);
 
     expect(unsealed).toMatchObject(validState);
     expect(typeof unsealed.issuedAt).toBe('number');
@@ -25,8 +27,8 @@ describe('PKCE state seal/unseal', () => {
       nonce: 'n',
       codeVerifier: 'v',
     };
-    const sealed = await sealState(sessionEncryption, testPassword, minimal);
-    const unsealed = await unsealState(sessionEncryption, testPassword, sealed);
+    const sealed = await sealState(sessionEncryption, testKeyring, minimal);
+    const unsealed = await unsealState(sessionEncryption, testKeyring, sealed);
 
     expect(unsealed).toMatchObject(minimal);
     expect(typeof unsealed.issuedAt).toBe('number');
@@ -40,12 +42,12 @@ describe('PKCE state seal/unseal', () => {
 
       const sealed = await sealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         validState,
       );
       const unsealed = await unsealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         sealed,
       );
 
@@ -67,10 +69,10 @@ describe('PKCE state seal/unseal', () => {
         codeVerifier: 'v',
         customState,
       };
-      const sealed = await sealState(sessionEncryption, testPassword, input);
+      const sealed = await sealState(sessionEncryption, testKeyring, input);
       const unsealed = await unsealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         sealed,
       );
 
@@ -79,7 +81,7 @@ describe('PKCE state seal/unseal', () => {
   );
 
   it('throws SessionEncryptionError on tampered ciphertext', async () => {
-    const sealed = await sealState(sessionEncryption, testPassword, validState);
+    const sealed = await sealState(sessionEncryption, testKeyring, validState);
     // Flip one char in the middle of the sealed string (avoiding the ~2 suffix).
     const mid = Math.floor(sealed.length / 2);
     const tampered =
@@ -88,17 +90,21 @@ describe('PKCE state seal/unseal', () => {
       sealed.slice(mid + 1);
 
     await expect(
-      unsealState(sessionEncryption, testPassword, tampered),
+      unsealState(sessionEncryption, testKeyring, tampered),
     ).rejects.toThrow(SessionEncryptionError);
   });
 
   it('throws SessionEncryptionError with wrong password', async () => {
-    const sealed = await sealState(sessionEncryption, testPassword, validState);
+    const sealed = await sealState(sessionEncryption, testKeyring, validState);
     const wrongPassword =
       'this-is-a-completely-different-password-that-is-long';
 
     await expect(
-      unsealState(sessionEncryption, wrongPassword, sealed),
+      unsealState(
+        sessionEncryption,
+        getCookieKeyring({ cookiePassword: wrongPassword }),
+        sealed,
+      ),
     ).rejects.toThrow(SessionEncryptionError);
   });
 
@@ -110,10 +116,10 @@ describe('PKCE state seal/unseal', () => {
     );
 
     await expect(
-      unsealState(sessionEncryption, testPassword, wrongShape),
+      unsealState(sessionEncryption, testKeyring, wrongShape),
     ).rejects.toThrow(SessionEncryptionError);
     await expect(
-      unsealState(sessionEncryption, testPassword, wrongShape),
+      unsealState(sessionEncryption, testKeyring, wrongShape),
     ).rejects.toThrow(/Malformed PKCE state payload/);
   });
 
@@ -129,14 +135,14 @@ describe('PKCE state seal/unseal', () => {
       vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
       const sealed = await sealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         validState,
       );
 
       vi.setSystemTime(new Date('2026-01-01T00:09:59.000Z')); // +599s
       const unsealed = await unsealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         sealed,
       );
 
@@ -147,7 +153,7 @@ describe('PKCE state seal/unseal', () => {
       vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
       const sealed = await sealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         validState,
       );
 
@@ -155,7 +161,7 @@ describe('PKCE state seal/unseal', () => {
       vi.setSystemTime(new Date('2026-01-01T00:10:01.000Z')); // +601s
 
       await expect(
-        unsealState(sessionEncryption, testPassword, sealed),
+        unsealState(sessionEncryption, testKeyring, sealed),
       ).rejects.toThrow(SessionEncryptionError);
     });
 
@@ -173,14 +179,14 @@ describe('PKCE state seal/unseal', () => {
       };
 
       vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
-      const sealed = await sealState(ignoresTtl, testPassword, validState);
+      const sealed = await sealState(ignoresTtl, testKeyring, validState);
 
       // 605s — inside iron's default 60s skew grace, outside the strict 600s
       // payload-level check.
       vi.setSystemTime(new Date('2026-01-01T00:10:05.000Z'));
 
       await expect(
-        unsealState(ignoresTtl, testPassword, sealed),
+        unsealState(ignoresTtl, testKeyring, sealed),
       ).rejects.toThrow(/PKCE state expired/);
     });
 
@@ -195,7 +201,7 @@ describe('PKCE state seal/unseal', () => {
 
       const unsealed = await unsealState(
         sessionEncryption,
-        testPassword,
+        testKeyring,
         sealed,
       );
       expect(unsealed).toMatchObject(validState);
@@ -209,7 +215,7 @@ describe('PKCE state seal/unseal', () => {
       );
 
       await expect(
-        unsealState(sessionEncryption, testPassword, sealed),
+        unsealState(sessionEncryption, testKeyring, sealed),
       ).rejects.toThrow(/PKCE state expired/);
     });
   });
@@ -1,4 +1,9 @@
 import * as v from 'valibot';
+import {
+  type CookieKeyring,
+  sealOptions,
+  unsealOptions,
+} from '../encryption/cookiePasswords.js';
 import { SessionEncryptionError } from '../errors.js';
 import type { SessionEncryption } from '../session/types.js';
 import { PKCE_COOKIE_MAX_AGE } from './cookieOptions.js';
@@ -55,15 +60,12 @@ export type PKCEStateInput = Omit<PKCEState, 'issuedAt'>;
  */
 export async function sealState(
   encryption: SessionEncryption,
-  password: string,
+  keyring: CookieKeyring,
   state: PKCEStateInput,
 ): Promise<string> {
   return encryption.sealData(
     { ...state, issuedAt: Date.now() },
-    {
-      password,
-      ttl: PKCE_COOKIE_MAX_AGE,
-    },
+    sealOptions(keyring, PKCE_COOKIE_MAX_AGE),
   );
 }
 
@@ -83,15 +85,15 @@ export async function sealState(
  */
 export async function unsealState(
   encryption: SessionEncryption,
-  password: string,
+  keyring: CookieKeyring,
   sealed: string,
 ): Promise<PKCEState> {
   let raw: unknown;
   try {
-    raw = await encryption.unsealData<unknown>(sealed, {
-      password,
-      ttl: PKCE_COOKIE_MAX_AGE,
-    });
+    raw = await encryption.unsealData<unknown>(
+      sealed,
+      unsealOptions(keyring, PKCE_COOKIE_MAX_AGE),
+    );
   } catch (cause) {
     throw new SessionEncryptionError('Failed to unseal PKCE state', cause);
   }
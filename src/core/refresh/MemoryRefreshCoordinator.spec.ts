@@ -0,0 +1,86 @@
+import { MemoryRefreshCoordinator } from './MemoryRefreshCoordinator.js';
+
+describe('MemoryRefreshCoordinator', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('grants the lock to one caller at a time', async () => {
+    const coordinator = new MemoryRefreshCoordinator();
+
+    expect(await coordinator.acquire('k', 30)).toBe(true);
+    expect(await coordinator.acquire('k', 30)).toBe(false);
+    expect(await coordinator.acquire('other', 30)).toBe(true);
+
+    await coordinator.release('k');
+    expect(await coordinator.acquire('k', 30)).toBe(true);
+  });
+
+  it('lets the lock lapse after its TTL', async () => {
+    vi.useFakeTimers();
+    const coordinator = new MemoryRefreshCoordinator();
+
+    await coordinator.acquire('k', 10);
+    vi.advanceTimersByTime(9_999);
+    expect(await coordinator.acquire('k', 10)).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(await coordinator.acquire('k', 10)).toBe(true);
+  });
+
+  it('resolves waiters with the published value', async () => {
+    const coordinator = new MemoryRefreshCoordinator();
+    await coordinator.acquire('k', 30);
+
+    const waiting = coordinator.waitForResult('k', 30);
+    await coordinator.publish('k', 'sealed-result', 30);
+
+    expect(await waiting).toBe('sealed-result');
+  });
+
+  it('returns an already published value immediately', async () => {
+    const coordinator = new MemoryRefreshCoordinator();
+    await coordinator.acquire('k', 30);
+    await coordinator.publish('k', 'sealed-result', 30);
+    await coordinator.release('k');
+
+    expect(await coordinator.waitForResult('k', 30)).toBe('sealed-result');
+  });
+
+  it('resolves waiters with null when the lock is released without a result', async () => {
+    const coordinator = new MemoryRefreshCoordinator();
+    await coordinator.acquire('k', 30);
+
+    const waiting = coordinator.waitForResult('k', 30);
+    await coordinator.release('k');
+
+    expect(await waiting).toBeNull();
+  });
+
+  it('resolves with null when nobody holds the lock', async () => {
+    const coordinator = new MemoryRefreshCoordinator();
+
+    expect(await coordinator.waitForResult('k', 30)).toBeNull();
+  });
+
+  it('resolves with null after the timeout', async () => {
+    vi.useFakeTimers();
+    const coordinator = new MemoryRefreshCoordinator();
+    await coordinator.acquire('k', 60);
+
+    const waiting = coordinator.waitForResult('k', 5);
+    vi.advanceTimersByTime(5_000);
+
+    expect(await waiting).toBeNull();
+  });
+
+  it('expires published values after their TTL', async () => {
+    vi.useFakeTimers();
+    const coordinator = new MemoryRefreshCoordinator();
+    await coordinator.publish('k', 'sealed-result', 10);
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(await coordinator.waitForResult('k', 1)).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import type { RefreshCoordinator } from '../session/types.js';
+
+type Waiter = (value: string | null) => void;
+
+/**
+ * In-process `RefreshCoordinator`.
+ *
+ * Reference implementation of the lock/publish/wait contract, and a working
+ * coordinator for single-instance deployments and tests. It does not
+ * coordinate across processes — use a shared backend (e.g. Redis `SET NX PX`
+ * plus pub/sub) behind load balancers.
+ */
+export class MemoryRefreshCoordinator implements RefreshCoordinator {
+  private readonly locks = new Map<string, number>();
+  private readonly results = new Map<
+    string,
+    { value: string; expiresAt: number }
+  >();
+  private readonly waiters = new Map<string, Set<Waiter>>();
+
+  async acquire(key: string, ttl: number): Promise<boolean> {
+    if (this.isLocked(key)) return false;
+    this.locks.set(key, Date.now() + ttl * 1000);
+    return true;
+  }
+
+  async release(key: string): Promise<void> {
+    this.locks.delete(key);
+    this.notify(key, null);
+  }
+
+  async publish(key: string, value: string, ttl: number): Promise<void> {
+    this.sweep();
+    this.results.set(key, { value, expiresAt: Date.now() + ttl * 1000 });
+    this.notify(key, value);
+  }
+
+  async waitForResult(key: string, timeout: number): Promise<string | null> {
+    const result = this.getResult(key);
+    if (result !== null) return result;
+    if (!this.isLocked(key)) return null;
+
+    return new Promise(resolve => {
+      const waiters = this.waiters.get(key) ?? new Set<Waiter>();
+      const done: Waiter = value => {
+        clearTimeout(timer);
+        waiters.delete(done);
+        if (waiters.size === 0) this.waiters.delete(key);
+        resolve(value);
+      };
+      const timer = setTimeout(() => done(null), timeout * 1000);
+      waiters.add(done);
+      this.waiters.set(key, waiters);
+    });
+  }
+
+  private isLocked(key: string): boolean {
+    const expiresAt = this.locks.get(key);
+    if (expiresAt === undefined) return false;
+    if (expiresAt > Date.now()) return true;
+    this.locks.delete(key);
+    return false;
+  }
+
+  private getResult(key: string): string | null {
+    const result = this.results.get(key);
+    if (!result) return null;
+    if (result.expiresAt <= Date.now()) {
+      this.results.delete(key);
+      return null;
+    }
+    return result.value;
+  }
+
+  private notify(key: string, value: string | null): void {
+    // Each waiter removes itself; deleting visited entries is safe mid-loop.
+    for (const waiter of this.waiters.get(key) ?? []) {
+      waiter(value);
+    }
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    for (const [key, result] of this.results) {
+      if (result.expiresAt <= now) this.results.delete(key);
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { getRefreshKey } from './refreshKey.js';
+
+describe('getRefreshKey', () => {
+  it('is deterministic', async () => {
+    expect(await getRefreshKey('rt', 'org_1')).toBe(
+      await getRefreshKey('rt', 'org_1'),
+    );
+  });
+
+  it('is a base64url SHA-256 digest that does not contain the token', async () => {
+    const key = await getRefreshKey('refresh-token-value');
+
+    expect(key).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(key).not.toContain('refresh-token-value');
+  });
+
+  it('differs per organization', async () => {
+    expect(await getRefreshKey('rt')).not.toBe(
+      await getRefreshKey('rt', 'org_1'),
+    );
+  });
+});
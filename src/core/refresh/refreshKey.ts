@@ -0,0 +1,19 @@
+import { base64UrlEncode } from '../../utils.js';
+
+/**
+ * Derive the coordination key for refreshing `refreshToken`, optionally into
+ * `organizationId`.
+ *
+ * SHA-256 of the pair, base64url-encoded, so shared backends only ever see an
+ * opaque identifier and never a usable token.
+ */
+export async function getRefreshKey(
+  refreshToken: string,
+  organizationId?: string,
+): Promise<string> {
+  const digest = await crypto.subtle.digest(
+    'SHA-256',
+    new TextEncoder().encode(`${refreshToken}\0${organizationId ?? ''}`),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
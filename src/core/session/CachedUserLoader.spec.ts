@@ -0,0 +1,86 @@
+import { CachedUserLoader } from './CachedUserLoader.js';
+
+function makeClient() {
+  const getUser = vi.fn(async (id: string) => ({ id, email: `${id}@x.com` }));
+  return { client: { userManagement: { getUser } } as any, getUser };
+}
+
+describe('CachedUserLoader', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('loads users through userManagement.getUser', async () => {
+    const { client, getUser } = makeClient();
+    const loader = new CachedUserLoader(client);
+
+    const user = await loader.getUser('user_1');
+
+    expect(user).toEqual({ id: 'user_1', email: 'user_1@x.com' });
+    expect(getUser).toHaveBeenCalledWith('user_1');
+  });
+
+  it('serves cached users until the TTL elapses', async () => {
+    vi.useFakeTimers();
+    const { client, getUser } = makeClient();
+    const loader = new CachedUserLoader(client, { ttl: 10 });
+
+    await loader.getUser('user_1');
+    vi.advanceTimersByTime(9_999);
+    await loader.getUser('user_1');
+    expect(getUser).toHaveBeenCalledTimes(1);
+
+    vi.advanceTimersByTime(1);
+    await loader.getUser('user_1');
+    expect(getUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('shares one request between concurrent loads', async () => {
+    const { client, getUser } = makeClient();
+    const loader = new CachedUserLoader(client);
+
+    const [a, b] = await Promise.all([
+      loader.getUser('user_1'),
+      loader.getUser('user_1'),
+    ]);
+
+    expect(a).toBe(b);
+    expect(getUser).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not cache failures', async () => {
+    const { client, getUser } = makeClient();
+    getUser.mockRejectedValueOnce(new Error('boom'));
+    const loader = new CachedUserLoader(client);
+
+    await expect(loader.getUser('user_1')).rejects.toThrow('boom');
+    await expect(loader.getUser('user_1')).resolves.toMatchObject({
+      id: 'user_1',
+    });
+    expect(getUser).toHaveBeenCalledTimes(2);
+  });
+
+  it('evicts the oldest entry past maxEntries', async () => {
+    const { client, getUser } = makeClient();
+    const loader = new CachedUserLoader(client, { maxEntries: 2 });
+
+    await loader.getUser('user_1');
+    await loader.getUser('user_2');
+    await loader.getUser('user_3');
+    await loader.getUser('user_2');
+    expect(getUser).toHaveBeenCalledTimes(3);
+
+    await loader.getUser('user_1');
+    expect(getUser).toHaveBeenCalledTimes(4);
+  });
+
+  it('does not cache with a zero TTL', async () => {
+    const { client, getUser } = makeClient();
+    const loader = new CachedUserLoader(client, { ttl: 0 });
+
+    await loader.getUser('user_1');
+    await loader.getUser('user_1');
+
+    expect(getUser).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,69 @@
+import type { User, WorkOS } from '@workos-inc/node';
+import type { UserLoader } from './types.js';
+
+export interface CachedUserLoaderOptions {
+  /**
+   * Seconds a loaded user is served from cache before it's fetched again.
+   * Defaults to 60.
+   */
+  ttl?: number;
+  /**
+   * Maximum number of users kept in the cache; the least recently loaded
+   * entry is evicted first. Defaults to 1000.
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Default `UserLoader` for slim sessions: `userManagement.getUser` behind a
+ * per-process TTL cache.
+ *
+ * Concurrent loads of the same user share one request. Failed loads are not
+ * cached, so a transient API error doesn't pin a user out for the full TTL.
+ */
+export class CachedUserLoader implements UserLoader {
+  private readonly client: WorkOS;
+  private readonly ttl: number;
+  private readonly maxEntries: number;
+  private readonly cache = new Map<string, { user: User; expiresAt: number }>();
+  private readonly inflight = new Map<string, Promise<User>>();
+
+  constructor(client: WorkOS, options: CachedUserLoaderOptions = {}) {
+    this.client = client;
+    this.ttl = options.ttl ?? 60;
+    this.maxEntries = options.maxEntries ?? 1000;
+  }
+
+  async getUser(userId: string): Promise<User> {
+    const cached = this.cache.get(userId);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.user;
+    }
+    this.cache.delete(userId);
+
+    const existing = this.inflight.get(userId);
+    if (existing) return existing;
+
+    const promise = this.client.userManagement
+      .getUser(userId)
+      .then(user => {
+        this.store(userId, user);
+        return user;
+      })
+      .finally(() => {
+        this.inflight.delete(userId);
+      });
+    this.inflight.set(userId, promise);
+    return promise;
+  }
+
+  private store(userId: string, user: User): void {
+    if (this.ttl <= 0) return;
+    while (this.cache.size >= this.maxEntries) {
+      const oldest = this.cache.keys().next();
+      if (oldest.done) break;
+      this.cache.delete(oldest.value);
+    }
+    this.cache.set(userId, { user, expiresAt: Date.now() + this.ttl * 1000 });
+  }
+}
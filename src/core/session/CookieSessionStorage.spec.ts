@@ -1,5 +1,6 @@
 import { CookieSessionStorage } from './CookieSessionStorage.js';
 import type { AuthKitConfig } from '../config/types.js';
+import { SessionPayloadTooLargeError } from '../errors.js';
 
 // Mock config
 const createMockConfig = (
@@ -24,6 +25,30 @@ class TestCookieSessionStorage extends CookieSessionStorage<string, string> {
   }
 }
 
+// Requests are modelled as a plain cookie map.
+class MapCookieSessionStorage extends CookieSessionStorage<
+  Record<string, string>,
+  string
+> {
+  async getCookie(request: Record<string, string>, name: string) {
+    return request[name] ?? null;
+  }
+}
+
+/** Apply Set-Cookie headers to a cookie jar the way a browser would. */
+function applyToJar(
+  jar: Record<string, string>,
+  setCookie: string | string[] | undefined,
+) {
+  for (const header of Array.isArray(setCookie) ? setCookie : [setCookie!]) {
+    const [pair] = header.split(';');
+    const [name, value] = pair!.split('=') as [string, string];
+    if (header.includes('Max-Age=0')) delete jar[name];
+    else jar[name] = decodeURIComponent(value);
+  }
+  return jar;
+}
+
 describe('CookieSessionStorage', () => {
   describe('constructor', () => {
     it('sets default cookie configuration', () => {
@@ -96,6 +121,43 @@ describe('CookieSessionStorage', () => {
 
       expect(storage['cookieOptions'].domain).toBe('.example.com');
     });
+
+    it('applies the __Host- prefix and its required attributes', () => {
+      const config = createMockConfig({
+        cookiePrefix: '__Host-',
+        cookieDomain: '.example.com',
+        redirectUri: 'http://localhost:3000/callback',
+      });
+      const storage = new TestCookieSessionStorage(config);
+
+      expect(storage['cookieName']).toBe('__Host-wos-session');
+      expect(storage['cookieOptions'].secure).toBe(true);
+      expect(storage['cookieOptions'].path).toBe('/');
+      expect(storage['cookieOptions']).not.toHaveProperty('domain');
+    });
+
+    it('applies the __Secure- prefix and keeps the domain', () => {
+      const config = createMockConfig({
+        cookiePrefix: '__Secure-',
+        cookieDomain: '.example.com',
+        redirectUri: 'http://localhost:3000/callback',
+      });
+      const storage = new TestCookieSessionStorage(config);
+
+      expect(storage['cookieName']).toBe('__Secure-wos-session');
+      expect(storage['cookieOptions'].secure).toBe(true);
+      expect(storage['cookieOptions'].domain).toBe('.example.com');
+    });
+
+    it('does not double-prefix a cookie name that already carries it', () => {
+      const config = createMockConfig({
+        cookiePrefix: '__Host-',
+        cookieName: '__Host-session',
+      });
+      const storage = new TestCookieSessionStorage(config);
+
+      expect(storage['cookieName']).toBe('__Host-session');
+    });
   });
 
   describe('abstract methods', () => {
@@ -135,7 +197,8 @@ describe('CookieSessionStorage', () => {
         const config = createMockConfig({ cookieSameSite: input });
         const storage = new TestCookieSessionStorage(config);
         const result = await storage.saveSession(undefined, 'test-data');
-        expect(result.headers?.['Set-Cookie']).toContain(expected);
+        const [session] = result.headers!['Set-Cookie'] as string[];
+        expect(session).toContain(expected);
       }
     });
   });
@@ -210,9 +273,211 @@ describe('CookieSessionStorage', () => {
         storage['cookieOptions'],
       );
 
-      expect(saved.headers?.['Set-Cookie']).toBe(
+      expect((saved.headers!['Set-Cookie'] as string[])[0]).toBe(
         explicit.headers?.['Set-Cookie'],
       );
     });
   });
+
+  describe('chunking', () => {
+    const small = 'a'.repeat(100);
+    const large = 'b'.repeat(9_000);
+
+    it('writes small sessions as a single cookie', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      const result = await storage.saveSession(undefined, small);
+      const headers = result.headers?.['Set-Cookie'] as string[];
+
+      expect(headers.filter(h => !h.includes('Max-Age=0'))).toEqual([
+        expect.stringContaining(`wos-session=${small}`),
+      ]);
+    });
+
+    it('expires every chunk when shrinking to a single cookie', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar = applyToJar(
+        {},
+        (await storage.saveSession(undefined, large)).headers?.['Set-Cookie'],
+      );
+
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, small)).headers?.['Set-Cookie'],
+      );
+
+      expect(Object.keys(jar)).toEqual(['wos-session']);
+      expect(await storage.getSession(jar)).toBe(small);
+    });
+
+    it('expires every leftover chunk when shrinking from 4 chunks to 2', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar = applyToJar(
+        {},
+        (await storage.saveSession(undefined, 'c'.repeat(14_000))).headers?.[
+          'Set-Cookie'
+        ],
+      );
+      expect(jar['wos-session.3']).toBeDefined();
+
+      const medium = 'e'.repeat(6_000);
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, medium)).headers?.['Set-Cookie'],
+      );
+
+      expect(jar).toEqual({
+        'wos-session.0': expect.any(String),
+        'wos-session.1': expect.any(String),
+      });
+      expect(await storage.getSession(jar)).toBe(medium);
+    });
+
+    it('writes only the cookie when the request sent no chunks', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      const result = await storage.saveSession(undefined, small, {
+        request: { 'wos-session': 'old' },
+      });
+
+      expect(result.headers?.['Set-Cookie']).toEqual(
+        expect.stringContaining(`wos-session=${small}`),
+      );
+    });
+
+    it('expires only the chunks the request sent', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar = applyToJar(
+        {},
+        (await storage.saveSession(undefined, large)).headers?.['Set-Cookie'],
+      );
+
+      const headers = (
+        await storage.saveSession(undefined, small, { request: { ...jar } })
+      ).headers?.['Set-Cookie'] as string[];
+      applyToJar(jar, headers);
+
+      expect(headers.map(h => h.split('=')[0])).toEqual([
+        'wos-session',
+        'wos-session.0',
+        'wos-session.1',
+        'wos-session.2',
+      ]);
+      expect(await storage.getSession(jar)).toBe(small);
+    });
+
+    it('splits large sessions into numbered chunks under the size limit', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      const result = await storage.saveSession(undefined, large);
+      const headers = result.headers?.['Set-Cookie'] as string[];
+
+      const written = headers.filter(h => !h.includes('Max-Age=0'));
+      expect(written.map(h => h.split('=')[0])).toEqual([
+        'wos-session.0',
+        'wos-session.1',
+        'wos-session.2',
+      ]);
+      for (const header of written) {
+        expect(new TextEncoder().encode(header).byteLength).toBeLessThanOrEqual(
+          3800,
+        );
+      }
+    });
+
+    it('reassembles chunks in getSession', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      const result = await storage.saveSession(undefined, large);
+      const jar = applyToJar({}, result.headers?.['Set-Cookie']);
+
+      expect(await storage.getSession(jar)).toBe(large);
+    });
+
+    it('ignores leftover chunks from an earlier, larger session', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar: Record<string, string> = {};
+
+      const bigger = 'c'.repeat(14_000);
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, bigger)).headers?.['Set-Cookie'],
+      );
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, large)).headers?.['Set-Cookie'],
+      );
+      expect(await storage.getSession(jar)).toBe(large);
+
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, small)).headers?.['Set-Cookie'],
+      );
+      expect(await storage.getSession(jar)).toBe(small);
+    });
+
+    it('drops the unchunked cookie when switching to chunks', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar = applyToJar(
+        {},
+        (await storage.saveSession(undefined, small)).headers?.['Set-Cookie'],
+      );
+
+      applyToJar(
+        jar,
+        (await storage.saveSession(undefined, large)).headers?.['Set-Cookie'],
+      );
+
+      expect(jar['wos-session']).toBeUndefined();
+      expect(await storage.getSession(jar)).toBe(large);
+    });
+
+    it('throws SessionPayloadTooLargeError when chunking is not enough', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      await expect(
+        storage.saveSession(undefined, 'd'.repeat(20_000)),
+      ).rejects.toBeInstanceOf(SessionPayloadTooLargeError);
+    });
+
+    it('clearSession expires the cookie and every possible chunk', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+
+      const result = await storage.clearSession(undefined);
+      const names = (result.headers!['Set-Cookie'] as string[]).map(
+        h => h.split('=')[0],
+      );
+
+      expect(names).toEqual([
+        'wos-session',
+        'wos-session.0',
+        'wos-session.1',
+        'wos-session.2',
+        'wos-session.3',
+        'wos-session.4',
+      ]);
+    });
+
+    it('clearSession limits deletes to chunks on the request when given', async () => {
+      const storage = new MapCookieSessionStorage(createMockConfig());
+      const jar = {
+        'wos-session.0': 'x',
+        'wos-session.1': 'y',
+        // Leftover past a gap from an earlier, larger session.
+        'wos-session.3': 'z',
+      };
+
+      const result = await storage.clearSession(undefined, { request: jar });
+      const names = (result.headers!['Set-Cookie'] as string[]).map(
+        h => h.split('=')[0],
+      );
+
+      expect(names).toEqual([
+        'wos-session',
+        'wos-session.0',
+        'wos-session.1',
+        'wos-session.3',
+      ]);
+    });
+  });
 });
@@ -1,4 +1,15 @@
 import type { AuthKitConfig } from '../config/types.js';
+import { SessionPayloadTooLargeError } from '../errors.js';
+import {
+  SESSION_MAX_COOKIE_BYTES,
+  SESSION_MAX_COOKIE_CHUNKS,
+  getSessionChunkCookieName,
+  splitSessionCookieValue,
+} from './cookieChunks.js';
+import {
+  applyCookiePrefixAttributes,
+  applyCookiePrefixToName,
+} from './cookiePrefix.js';
 import { serializeCookie } from './serializeCookie.js';
 import type { CookieOptions, HeadersBag, SessionStorage } from './types.js';
 
@@ -15,7 +26,10 @@ export abstract class CookieSessionStorage<
     // Matches the canonical default in ConfigurationProvider. This fallback
     // only fires when a caller instantiates the class with a config that
     // hasn't been resolved through the provider.
-    this.cookieName = config.cookieName ?? 'wos-session';
+    this.cookieName = applyCookiePrefixToName(
+      config.cookieName ?? 'wos-session',
+      config.cookiePrefix,
+    );
 
     const sameSite = config.cookieSameSite ?? 'lax';
 
@@ -31,14 +45,17 @@ export abstract class CookieSessionStorage<
       }
     }
 
-    this.cookieOptions = {
-      path: '/',
-      httpOnly: true,
-      sameSite,
-      secure,
-      maxAge: config.cookieMaxAge ?? 60 * 60 * 24 * 400, // 400 days
-      domain: config.cookieDomain,
-    };
+    this.cookieOptions = applyCookiePrefixAttributes(
+      {
+        path: '/',
+        httpOnly: true,
+        sameSite,
+        secure,
+        maxAge: config.cookieMaxAge ?? 60 * 60 * 24 * 400, // 400 days
+        domain: config.cookieDomain,
+      },
+      config.cookiePrefix,
+    );
   }
 
   protected async applyHeaders(
@@ -68,6 +85,22 @@ export abstract class CookieSessionStorage<
    */
   abstract getCookie(request: TRequest, name: string): Promise<string | null>;
 
+  /**
+   * Apply one or more `Set-Cookie` values through `applyHeaders`, falling
+   * back to a headers bag. A single value stays a plain string; several are
+   * passed as `string[]` so adapters append each as its own header.
+   */
+  private async emitSetCookies(
+    response: TResponse | undefined,
+    setCookies: string[],
+  ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
+    const headers: HeadersBag = {
+      'Set-Cookie': setCookies.length === 1 ? setCookies[0]! : setCookies,
+    };
+    const mutated = await this.applyHeaders(response, headers);
+    return mutated ?? { headers };
+  }
+
   async setCookie(
     response: TResponse | undefined,
     name: string,
@@ -75,8 +108,7 @@ export abstract class CookieSessionStorage<
     options: CookieOptions,
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
     const header = this.serializeCookie(name, value, options);
-    const mutated = await this.applyHeaders(response, { 'Set-Cookie': header });
-    return mutated ?? { headers: { 'Set-Cookie': header } };
+    return this.emitSetCookies(response, [header]);
   }
 
   async clearCookie(
@@ -85,29 +117,134 @@ export abstract class CookieSessionStorage<
     options: CookieOptions,
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
     const header = this.serializeCookie(name, '', options, { expired: true });
-    const mutated = await this.applyHeaders(response, { 'Set-Cookie': header });
-    return mutated ?? { headers: { 'Set-Cookie': header } };
+    return this.emitSetCookies(response, [header]);
   }
 
-  getSession(request: TRequest): Promise<string | null> {
-    return this.getCookie(request, this.cookieName);
+  /**
+   * Read the session cookie, reassembling it from `<name>.0`, `<name>.1`, …
+   * when it was chunked.
+   *
+   * The unchunked cookie takes precedence, and chunks are read in order up to
+   * the first gap, so leftover chunks a browser failed to expire never shadow
+   * or extend a newer session.
+   */
+  async getSession(request: TRequest): Promise<string | null> {
+    const value = await this.getCookie(request, this.cookieName);
+    if (value !== null) return value;
+
+    const chunks: string[] = [];
+    for (let i = 0; i < SESSION_MAX_COOKIE_CHUNKS; i++) {
+      const chunk = await this.getCookie(
+        request,
+        getSessionChunkCookieName(this.cookieName, i),
+      );
+      if (chunk === null) break;
+      chunks.push(chunk);
+    }
+    return chunks.length > 0 ? chunks.join('') : null;
   }
 
-  saveSession(
+  /**
+   * Write the session cookie, splitting it across `<name>.0`, `<name>.1`, …
+   * when the serialized cookie would exceed the per-cookie browser limit.
+   *
+   * Cookies left over from a differently chunked predecessor are expired.
+   * Pass `options.request` to limit those deletes to the cookies it sent;
+   * without it, every possible chunk name is expired.
+   *
+   * @throws {SessionPayloadTooLargeError} the session doesn't fit even after
+   *   chunking. Browsers silently drop oversized cookies, so failing loudly
+   *   here beats a sign-in that appears to succeed but never sticks.
+   */
+  async saveSession(
     response: TResponse | undefined,
     sessionData: string,
+    options?: { request?: TRequest },
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
-    return this.setCookie(
-      response,
+    const request = options?.request;
+    const single = this.serializeCookie(
       this.cookieName,
       sessionData,
       this.cookieOptions,
     );
+    const singleBytes = new TextEncoder().encode(single).byteLength;
+    if (singleBytes <= SESSION_MAX_COOKIE_BYTES) {
+      // Drop any chunks a larger predecessor was split into.
+      return this.emitSetCookies(response, [
+        single,
+        ...(await this.expireSessionChunks(0, request)),
+      ]);
+    }
+
+    const chunks = splitSessionCookieValue(
+      this.cookieName,
+      sessionData,
+      this.cookieOptions,
+    );
+    if (!chunks) {
+      throw new SessionPayloadTooLargeError(
+        `Session cookie is ${singleBytes} bytes, exceeds supported limit of ${SESSION_MAX_COOKIE_CHUNKS} cookies of ${SESSION_MAX_COOKIE_BYTES} bytes. ` +
+          `Reduce the number of roles, permissions, entitlements, or feature flags on the session, or use ServerSideSessionStorage.`,
+      );
+    }
+
+    const setCookies = chunks.map((chunk, i) =>
+      this.serializeCookie(
+        getSessionChunkCookieName(this.cookieName, i),
+        chunk,
+        this.cookieOptions,
+      ),
+    );
+    // Drop a longer predecessor's tail so it isn't reassembled, and the
+    // unchunked cookie, which would otherwise take precedence on read.
+    setCookies.push(
+      ...(await this.expireSessionChunks(chunks.length, request)),
+    );
+    if (!request || (await this.getCookie(request, this.cookieName)) !== null) {
+      setCookies.push(
+        this.serializeCookie(this.cookieName, '', this.cookieOptions, {
+          expired: true,
+        }),
+      );
+    }
+    return this.emitSetCookies(response, setCookies);
   }
 
-  clearSession(
+  /**
+   * Expired `Set-Cookie` headers for chunks `from` to the last possible, or
+   * only those of them `request` sent when given.
+   */
+  private async expireSessionChunks(
+    from: number,
+    request: TRequest | undefined,
+  ): Promise<string[]> {
+    const headers: string[] = [];
+    for (let i = from; i < SESSION_MAX_COOKIE_CHUNKS; i++) {
+      const name = getSessionChunkCookieName(this.cookieName, i);
+      if (request && (await this.getCookie(request, name)) === null) continue;
+      headers.push(
+        this.serializeCookie(name, '', this.cookieOptions, { expired: true }),
+      );
+    }
+    return headers;
+  }
+
+  /**
+   * Expire the session cookie and every chunk it may have been split into.
+   *
+   * Without `options.request` the chunks present can't be known, so deletes
+   * are emitted for every possible chunk name. Pass the incoming request to
+   * limit the deletes to the chunks actually sent.
+   */
+  async clearSession(
     response: TResponse | undefined,
+    options?: { request?: TRequest },
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
-    return this.clearCookie(response, this.cookieName, this.cookieOptions);
+    return this.emitSetCookies(response, [
+      this.serializeCookie(this.cookieName, '', this.cookieOptions, {
+        expired: true,
+      }),
+      ...(await this.expireSessionChunks(0, options?.request)),
+    ]);
   }
 }
@@ -0,0 +1,90 @@
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSystemSessionStore } from './FileSystemSessionStore.js';
+
+describe('FileSystemSessionStore', () => {
+  let directory: string;
+  let store: FileSystemSessionStore;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'authkit-sessions-'));
+    store = new FileSystemSessionStore({ directory });
+  });
+
+  afterEach(async () => {
+    vi.useRealTimers();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('round-trips values', async () => {
+    await store.set('abc_123-XYZ', 'sealed');
+
+    expect(await store.get('abc_123-XYZ')).toBe('sealed');
+  });
+
+  it('returns null for missing records', async () => {
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('creates the directory on first write', async () => {
+    const nested = new FileSystemSessionStore({
+      directory: join(directory, 'nested', 'dir'),
+    });
+
+    await nested.set('abc', 'sealed');
+
+    expect(await nested.get('abc')).toBe('sealed');
+  });
+
+  it('expires records after their TTL and removes the file', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await store.set('abc', 'sealed', 10);
+
+    vi.setSystemTime(Date.now() + 10_000);
+
+    expect(await store.get('abc')).toBeNull();
+    expect(await readdir(directory)).toEqual([]);
+  });
+
+  it('sweeps expired records on write', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await store.set('abandoned', 'sealed', 10);
+
+    vi.setSystemTime(Date.now() + 60_000);
+    await store.set('fresh', 'sealed', 10);
+
+    expect(await readdir(directory)).toEqual(['fresh.json']);
+  });
+
+  it('prune removes only expired records', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    await store.set('short', 'sealed', 10);
+    await store.set('long', 'sealed', 100);
+    await store.set('forever', 'sealed');
+
+    vi.setSystemTime(Date.now() + 10_000);
+    await store.prune();
+
+    expect(new Set(await readdir(directory))).toEqual(
+      new Set(['forever.json', 'long.json']),
+    );
+  });
+
+  it('delete removes the record and is idempotent', async () => {
+    await store.set('abc', 'sealed');
+
+    await store.delete('abc');
+    await store.delete('abc');
+
+    expect(await store.get('abc')).toBeNull();
+  });
+
+  it('rejects IDs that could escape the directory', async () => {
+    await expect(store.set('../escape', 'sealed')).rejects.toThrow(
+      'Invalid session ID',
+    );
+    expect(await store.get('../escape')).toBeNull();
+    await expect(store.delete('../escape')).resolves.toBeUndefined();
+  });
+});
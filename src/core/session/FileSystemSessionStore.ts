@@ -0,0 +1,123 @@
+import type { SessionStore } from './types.js';
+
+/**
+ * Only IDs in this alphabet ever reach the filesystem, so a crafted ID can't
+ * escape `directory` via `/`, `..`, or platform-specific separators.
+ */
+const SAFE_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/** At most one directory sweep per minute on write. */
+const SWEEP_INTERVAL_MS = 60_000;
+
+interface StoredRecord {
+  value: string;
+  expiresAt: number | null;
+}
+
+/**
+ * `SessionStore` that keeps one JSON file per session in a directory.
+ *
+ * Intended for single-host deployments that need sessions to survive a
+ * restart without running a separate database. Node-only: `node:fs` is
+ * imported lazily so merely importing this package stays runtime-portable.
+ *
+ * Expiry is enforced on read; expired files are removed when encountered,
+ * and swept from the directory on write (at most once a minute) so
+ * abandoned sessions don't stay on disk. Call `prune()` to sweep on your
+ * own schedule.
+ */
+export class FileSystemSessionStore implements SessionStore {
+  private readonly directory: string;
+  private nextSweepAt = 0;
+
+  constructor(options: { directory: string }) {
+    this.directory = options.directory;
+  }
+
+  private async resolve(id: string) {
+    if (!SAFE_ID_PATTERN.test(id)) {
+      throw new Error('Invalid session ID');
+    }
+    const [fs, path] = await Promise.all([
+      import('node:fs/promises'),
+      import('node:path'),
+    ]);
+    return { fs, file: path.join(this.directory, `${id}.json`) };
+  }
+
+  async get(id: string): Promise<string | null> {
+    if (!SAFE_ID_PATTERN.test(id)) return null;
+    const { fs, file } = await this.resolve(id);
+
+    let raw: string;
+    try {
+      raw = await fs.readFile(file, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+
+    const record = JSON.parse(raw) as StoredRecord;
+    if (record.expiresAt !== null && record.expiresAt <= Date.now()) {
+      await fs.rm(file, { force: true });
+      return null;
+    }
+    return record.value;
+  }
+
+  async set(id: string, value: string, ttl?: number): Promise<void> {
+    const { fs, file } = await this.resolve(id);
+    await fs.mkdir(this.directory, { recursive: true, mode: 0o700 });
+    if (Date.now() >= this.nextSweepAt) {
+      this.nextSweepAt = Date.now() + SWEEP_INTERVAL_MS;
+      await this.prune();
+    }
+
+    // Write-then-rename so concurrent readers never see a partial file.
+    const tmp = `${file}.${crypto.randomUUID()}.tmp`;
+    const record: StoredRecord = {
+      value,
+      expiresAt: ttl ? Date.now() + ttl * 1000 : null,
+    };
+    await fs.writeFile(tmp, JSON.stringify(record), { mode: 0o600 });
+    await fs.rename(tmp, file);
+  }
+
+  async delete(id: string): Promise<void> {
+    if (!SAFE_ID_PATTERN.test(id)) return;
+    const { fs, file } = await this.resolve(id);
+    await fs.rm(file, { force: true });
+  }
+
+  /**
+   * Remove every expired record from the directory. Files that can't be
+   * read or parsed are left alone.
+   */
+  async prune(): Promise<void> {
+    const fs = await import('node:fs/promises');
+    let names: string[];
+    try {
+      names = await fs.readdir(this.directory);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return;
+      throw error;
+    }
+
+    const now = Date.now();
+    for (const name of names) {
+      const id = name.slice(0, -'.json'.length);
+      if (!name.endsWith('.json') || !SAFE_ID_PATTERN.test(id)) continue;
+      const { file } = await this.resolve(id);
+      try {
+        const record = JSON.parse(
+          await fs.readFile(file, 'utf8'),
+        ) as StoredRecord;
+        if (record.expiresAt !== null && record.expiresAt <= now) {
+          await fs.rm(file, { force: true });
+        }
+      } catch {
+        // Removed concurrently or not ours; leave it.
+      }
+    }
+  }
+}
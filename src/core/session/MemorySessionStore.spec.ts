@@ -0,0 +1,78 @@
+import { MemorySessionStore } from './MemorySessionStore.js';
+
+describe('MemorySessionStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('round-trips values', async () => {
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value');
+
+    expect(await store.get('a')).toBe('value');
+  });
+
+  it('returns null for missing keys', async () => {
+    const store = new MemorySessionStore();
+
+    expect(await store.get('missing')).toBeNull();
+  });
+
+  it('expires records after their TTL', async () => {
+    vi.useFakeTimers();
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value', 10);
+    vi.advanceTimersByTime(9_999);
+    expect(await store.get('a')).toBe('value');
+
+    vi.advanceTimersByTime(1);
+    expect(await store.get('a')).toBeNull();
+  });
+
+  it('treats a zero TTL as no expiry', async () => {
+    vi.useFakeTimers();
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value', 0);
+    vi.advanceTimersByTime(1_000_000_000);
+
+    expect(await store.get('a')).toBe('value');
+  });
+
+  it('sweeps expired records on write', async () => {
+    vi.useFakeTimers();
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value', 1);
+    vi.advanceTimersByTime(60_000);
+    await store.set('b', 'value');
+
+    expect(store['records'].has('a')).toBe(false);
+  });
+
+  it('sweeps at most once a minute', async () => {
+    vi.useFakeTimers();
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value', 1);
+    vi.advanceTimersByTime(2_000);
+    await store.set('b', 'value');
+    expect(store['records'].has('a')).toBe(true);
+
+    vi.advanceTimersByTime(58_000);
+    await store.set('c', 'value');
+    expect(store['records'].has('a')).toBe(false);
+  });
+
+  it('delete is idempotent', async () => {
+    const store = new MemorySessionStore();
+
+    await store.set('a', 'value');
+    await store.delete('a');
+    await store.delete('a');
+
+    expect(await store.get('a')).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import type { SessionStore } from './types.js';
+
+/** At most one sweep per minute, so writes stay O(1) between sweeps. */
+const SWEEP_INTERVAL_MS = 60_000;
+
+/**
+ * In-process `SessionStore` backed by a `Map`.
+ *
+ * Suitable for development, tests, and single-instance deployments. Records
+ * are lost on restart and are not shared between processes — use a shared
+ * backend (Redis, a database) behind load balancers.
+ *
+ * Expired records are dropped lazily on read and swept on write (at most
+ * once a minute), so abandoned sessions don't accumulate for the life of
+ * the process.
+ */
+export class MemorySessionStore implements SessionStore {
+  private readonly records = new Map<
+    string,
+    { value: string; expiresAt: number | null }
+  >();
+  private nextSweepAt = 0;
+
+  async get(id: string): Promise<string | null> {
+    const record = this.records.get(id);
+    if (!record) return null;
+    if (record.expiresAt !== null && record.expiresAt <= Date.now()) {
+      this.records.delete(id);
+      return null;
+    }
+    return record.value;
+  }
+
+  async set(id: string, value: string, ttl?: number): Promise<void> {
+    this.sweep();
+    this.records.set(id, {
+      value,
+      expiresAt: ttl ? Date.now() + ttl * 1000 : null,
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    this.records.delete(id);
+  }
+
+  private sweep(): void {
+    const now = Date.now();
+    if (now < this.nextSweepAt) return;
+    this.nextSweepAt = now + SWEEP_INTERVAL_MS;
+    for (const [id, record] of this.records) {
+      if (record.expiresAt !== null && record.expiresAt <= now) {
+        this.records.delete(id);
+      }
+    }
+  }
+}
@@ -0,0 +1,166 @@
+import type { AuthKitConfig } from '../config/types.js';
+import { MemorySessionStore } from './MemorySessionStore.js';
+import {
+  ServerSideSessionStorage,
+  generateSessionId,
+  isSessionId,
+} from './ServerSideSessionStorage.js';
+
+const createMockConfig = (
+  overrides: Partial<AuthKitConfig> = {},
+): AuthKitConfig => ({
+  clientId: 'test-client-id',
+  apiKey: 'test-api-key',
+  redirectUri: 'https://example.com/callback',
+  cookiePassword: 'test-password-that-is-32-chars-long!!',
+  cookieName: 'wos-session',
+  cookieSameSite: 'lax',
+  apiHttps: true,
+  cookieMaxAge: 60 * 60,
+  cookieDomain: undefined,
+  ...overrides,
+});
+
+// Requests are modelled as a plain cookie map.
+type TestRequest = Record<string, string>;
+
+class TestServerSideStorage extends ServerSideSessionStorage<
+  TestRequest,
+  string
+> {
+  async getCookie(request: TestRequest, name: string) {
+    return request[name] ?? null;
+  }
+}
+
+function cookieValue(header: string | string[] | undefined): string {
+  const value = Array.isArray(header) ? header[0] : header;
+  return decodeURIComponent(value!.split(';')[0]!.split('=')[1]!);
+}
+
+describe('ServerSideSessionStorage', () => {
+  let store: MemorySessionStore;
+  let storage: TestServerSideStorage;
+
+  beforeEach(() => {
+    store = new MemorySessionStore();
+    storage = new TestServerSideStorage(createMockConfig(), store);
+  });
+
+  it('writes only the opaque session ID to the cookie', async () => {
+    const result = await storage.saveSession(undefined, 'sealed-session');
+
+    const id = cookieValue(result.headers?.['Set-Cookie']);
+    expect(isSessionId(id)).toBe(true);
+    expect(result.headers?.['Set-Cookie']).not.toContain('sealed-session');
+    expect(await store.get(id)).toBe('sealed-session');
+  });
+
+  it('stores records with the cookie max age as TTL', async () => {
+    const setSpy = vi.spyOn(store, 'set');
+
+    await storage.saveSession(undefined, 'sealed-session');
+
+    expect(setSpy).toHaveBeenCalledWith(
+      expect.any(String),
+      'sealed-session',
+      60 * 60,
+    );
+  });
+
+  it('reads the sealed session back through the ID cookie', async () => {
+    const result = await storage.saveSession(undefined, 'sealed-session');
+    const id = cookieValue(result.headers?.['Set-Cookie']);
+
+    expect(await storage.getSession({ 'wos-session': id })).toBe(
+      'sealed-session',
+    );
+  });
+
+  it('returns null when the cookie is absent or unknown', async () => {
+    expect(await storage.getSession({})).toBeNull();
+    expect(
+      await storage.getSession({ 'wos-session': generateSessionId() }),
+    ).toBeNull();
+  });
+
+  it('never forwards malformed IDs to the store', async () => {
+    const getSpy = vi.spyOn(store, 'get');
+
+    const result = await storage.getSession({ 'wos-session': '../../etc' });
+
+    expect(result).toBeNull();
+    expect(getSpy).not.toHaveBeenCalled();
+  });
+
+  it('mints a new ID on every save', async () => {
+    const a = await storage.saveSession(undefined, 'one');
+    const b = await storage.saveSession(undefined, 'two');
+
+    expect(cookieValue(a.headers?.['Set-Cookie'])).not.toBe(
+      cookieValue(b.headers?.['Set-Cookie']),
+    );
+  });
+
+  it('keeps the session ID when the request is passed to saveSession', async () => {
+    const first = await storage.saveSession(undefined, 'old');
+    const oldId = cookieValue(first.headers?.['Set-Cookie']);
+
+    const second = await storage.saveSession(undefined, 'new', {
+      request: { 'wos-session': oldId },
+    });
+
+    expect(cookieValue(second.headers?.['Set-Cookie'])).toBe(oldId);
+    // A parallel request still carrying the cookie reads the new record.
+    expect(await storage.getSession({ 'wos-session': oldId })).toBe('new');
+  });
+
+  it('mints a new ID when the request ID has no record', async () => {
+    const unknownId = generateSessionId();
+
+    const saved = await storage.saveSession(undefined, 'new', {
+      request: { 'wos-session': unknownId },
+    });
+    const id = cookieValue(saved.headers?.['Set-Cookie']);
+
+    expect(id).not.toBe(unknownId);
+    expect(await store.get(unknownId)).toBeNull();
+    expect(await store.get(id)).toBe('new');
+  });
+
+  it('clearSession expires the cookie and deletes the record', async () => {
+    const saved = await storage.saveSession(undefined, 'sealed-session');
+    const id = cookieValue(saved.headers?.['Set-Cookie']);
+
+    const cleared = await storage.clearSession(undefined, {
+      request: { 'wos-session': id },
+    });
+
+    expect(cleared.headers?.['Set-Cookie']).toContain('Max-Age=0');
+    expect(await store.get(id)).toBeNull();
+  });
+
+  it('clearSession without a request only expires the cookie', async () => {
+    const deleteSpy = vi.spyOn(store, 'delete');
+
+    const cleared = await storage.clearSession(undefined);
+
+    expect(cleared.headers?.['Set-Cookie']).toContain('wos-session=;');
+    expect(deleteSpy).not.toHaveBeenCalled();
+  });
+});
+
+describe('generateSessionId', () => {
+  it('produces 43-char base64url IDs', () => {
+    const id = generateSessionId();
+
+    expect(id).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    expect(isSessionId(id)).toBe(true);
+  });
+
+  it('produces distinct IDs', () => {
+    const ids = new Set(Array.from({ length: 100 }, generateSessionId));
+
+    expect(ids.size).toBe(100);
+  });
+});
@@ -0,0 +1,115 @@
+import { base64UrlEncode } from '../../utils.js';
+import type { AuthKitConfig } from '../config/types.js';
+import { CookieSessionStorage } from './CookieSessionStorage.js';
+import type { HeadersBag, SessionStore } from './types.js';
+
+/**
+ * Per-call options accepted by `ServerSideSessionStorage.saveSession` and
+ * `clearSession`.
+ *
+ * The session ID lives in the request's cookie, which `saveSession` and
+ * `clearSession` can't otherwise see. Passing the incoming `request` lets
+ * the storage update the record it is replacing (on refresh) in place, or
+ * delete the one it is ending (on sign-out) instead of leaving it to expire
+ * via the store's TTL.
+ */
+export interface ServerSideSessionOptions<TRequest> {
+  request?: TRequest;
+}
+
+/** 32 random bytes, base64url-encoded without padding. */
+const SESSION_ID_PATTERN = /^[A-Za-z0-9_-]{43}$/;
+
+/**
+ * Generate an opaque session ID: 256 bits from the platform CSPRNG,
+ * base64url-encoded so it's cookie- and filename-safe without escaping.
+ */
+export function generateSessionId(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * True when `id` has the exact shape `generateSessionId` produces. Anything
+ * else in the cookie was not minted by us and is never forwarded to a store.
+ */
+export function isSessionId(id: string): boolean {
+  return SESSION_ID_PATTERN.test(id);
+}
+
+/**
+ * Cookie storage variant that keeps the sealed session server-side.
+ *
+ * The session cookie carries only an opaque random ID; the sealed `Session`
+ * (tokens, `User`, impersonator) is written to a pluggable `SessionStore`
+ * under that ID. `AuthService` is unaware of the difference — it still reads
+ * and writes sealed strings through `getSession`/`saveSession`.
+ *
+ * A `saveSession` without `options.request` (a sign-in) mints a fresh ID, so
+ * a sign-in never reuses an ID the browser presented before (session
+ * fixation). A refresh that passes the request keeps its ID, so parallel
+ * requests still carrying the cookie read the refreshed record instead of a
+ * deleted one. Adapters implement `getCookie` exactly as they would for
+ * `CookieSessionStorage`.
+ */
+export abstract class ServerSideSessionStorage<
+  TRequest,
+  TResponse,
+> extends CookieSessionStorage<TRequest, TResponse> {
+  protected readonly store: SessionStore;
+
+  constructor(config: AuthKitConfig, store: SessionStore) {
+    super(config);
+    this.store = store;
+  }
+
+  private async getSessionId(request: TRequest): Promise<string | null> {
+    const id = await this.getCookie(request, this.cookieName);
+    return id && isSessionId(id) ? id : null;
+  }
+
+  override async getSession(request: TRequest): Promise<string | null> {
+    const id = await this.getSessionId(request);
+    return id ? this.store.get(id) : null;
+  }
+
+  /**
+   * Store `sessionData` and emit the ID cookie.
+   *
+   * Pass `options.request` when replacing an existing session (e.g. after a
+   * refresh) to overwrite its record under the same ID. Otherwise, or when
+   * the request's ID has no record, a new ID is minted. Don't pass it at
+   * sign-in.
+   */
+  override async saveSession(
+    response: TResponse | undefined,
+    sessionData: string,
+    options?: ServerSideSessionOptions<TRequest>,
+  ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
+    const previousId = options?.request
+      ? await this.getSessionId(options.request)
+      : null;
+    const id =
+      previousId && (await this.store.get(previousId)) !== null
+        ? previousId
+        : generateSessionId();
+    await this.store.set(id, sessionData, this.cookieOptions.maxAge);
+    return this.setCookie(response, this.cookieName, id, this.cookieOptions);
+  }
+
+  /**
+   * Expire the session ID cookie. Pass `options.request` to also delete the
+   * server-side record it points to.
+   */
+  override async clearSession(
+    response: TResponse | undefined,
+    options?: ServerSideSessionOptions<TRequest>,
+  ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
+    const id = options?.request
+      ? await this.getSessionId(options.request)
+      : null;
+    if (id) {
+      await this.store.delete(id);
+    }
+    return this.clearCookie(response, this.cookieName, this.cookieOptions);
+  }
+}
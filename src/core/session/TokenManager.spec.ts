@@ -129,4 +129,12 @@ describe('TokenManager', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('verifyTokenDetailed()', () => {
+    it('reports why verification failed', async () => {
+      const result = await tokenManager.verifyTokenDetailed('invalid-token');
+
+      expect(result.status).toBe('malformed');
+    });
+  });
 });
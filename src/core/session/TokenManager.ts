@@ -1,15 +1,29 @@
-import { createRemoteJWKSet, decodeJwt, jwtVerify } from 'jose';
+import { createRemoteJWKSet, decodeJwt } from 'jose';
 import { once } from '../../utils.js';
-import type { BaseTokenClaims, CustomClaims } from './types.js';
+import type {
+  BaseTokenClaims,
+  CustomClaims,
+  TokenVerificationResult,
+} from './types.js';
+import {
+  type AccessTokenClaimOptions,
+  verifyAccessToken,
+} from './verifyAccessToken.js';
 import type { WorkOS } from '@workos-inc/node';
 
 export class TokenManager {
   private clientId: string;
   private client: WorkOS;
+  private claimOptions: AccessTokenClaimOptions;
 
-  constructor(clientId: string, client: WorkOS) {
+  constructor(
+    clientId: string,
+    client: WorkOS,
+    claimOptions: AccessTokenClaimOptions = {},
+  ) {
     this.clientId = clientId;
     this.client = client;
+    this.claimOptions = claimOptions;
   }
 
   private readonly getPublicKey = once(() =>
@@ -19,12 +33,17 @@ export class TokenManager {
   );
 
   async verifyToken(token: string): Promise<boolean> {
-    try {
-      await jwtVerify(token, this.getPublicKey());
-      return true;
-    } catch {
-      return false;
-    }
+    return (await this.verifyTokenDetailed(token)).status === 'valid';
+  }
+
+  async verifyTokenDetailed<TCustomClaims = CustomClaims>(
+    token: string,
+  ): Promise<TokenVerificationResult<TCustomClaims>> {
+    return verifyAccessToken<TCustomClaims>(
+      token,
+      this.getPublicKey(),
+      this.claimOptions,
+    );
   }
 
   parseTokenClaims<TCustomClaims = CustomClaims>(
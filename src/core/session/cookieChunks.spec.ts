@@ -0,0 +1,68 @@
+import {
+  SESSION_MAX_COOKIE_BYTES,
+  SESSION_MAX_COOKIE_CHUNKS,
+  getSessionChunkCookieName,
+  splitSessionCookieValue,
+} from './cookieChunks.js';
+import { serializeCookie } from './serializeCookie.js';
+
+const options = {
+  path: '/',
+  httpOnly: true,
+  secure: true,
+  sameSite: 'lax' as const,
+  maxAge: 60 * 60 * 24 * 400,
+};
+
+describe('getSessionChunkCookieName', () => {
+  it('appends a dot-separated index', () => {
+    expect(getSessionChunkCookieName('wos-session', 0)).toBe('wos-session.0');
+    expect(getSessionChunkCookieName('wos-session', 4)).toBe('wos-session.4');
+  });
+});
+
+describe('splitSessionCookieValue', () => {
+  it('round-trips the value', () => {
+    const value = 'x'.repeat(10_000);
+
+    const chunks = splitSessionCookieValue('wos-session', value, options)!;
+
+    expect(chunks.join('')).toBe(value);
+  });
+
+  it('keeps every serialized chunk within the byte limit', () => {
+    const chunks = splitSessionCookieValue(
+      'wos-session',
+      'x'.repeat(10_000),
+      options,
+    )!;
+
+    chunks.forEach((chunk, i) => {
+      const header = serializeCookie(
+        getSessionChunkCookieName('wos-session', i),
+        chunk,
+        options,
+      );
+      expect(new TextEncoder().encode(header).byteLength).toBeLessThanOrEqual(
+        SESSION_MAX_COOKIE_BYTES,
+      );
+    });
+  });
+
+  it('accounts for characters that encodeURIComponent expands', () => {
+    const value = '+'.repeat(5_000); // each encodes to "%2B"
+
+    const chunks = splitSessionCookieValue('wos-session', value, options)!;
+
+    expect(chunks.join('')).toBe(value);
+    expect(chunks.length).toBeGreaterThan(3);
+  });
+
+  it('returns null when the value needs more than the maximum chunks', () => {
+    const value = 'x'.repeat(
+      SESSION_MAX_COOKIE_BYTES * SESSION_MAX_COOKIE_CHUNKS,
+    );
+
+    expect(splitSessionCookieValue('wos-session', value, options)).toBeNull();
+  });
+});
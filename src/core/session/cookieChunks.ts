@@ -0,0 +1,69 @@
+import { serializeCookie } from './serializeCookie.js';
+import type { CookieOptions } from './types.js';
+
+/**
+ * Maximum serialized `Set-Cookie` header length (bytes) for a single session
+ * cookie or chunk. Same budget as the PKCE verifier cookie: browsers drop
+ * cookies past ~4096 bytes, and 3800 leaves headroom for proxies that cap
+ * lower.
+ */
+export const SESSION_MAX_COOKIE_BYTES = 3800;
+
+/**
+ * Maximum number of chunks a session may be split across. Bounds both the
+ * `Cookie` request header (every chunk is sent on every request, and servers
+ * commonly reject request headers past 8–16 KB with HTTP 431) and the number
+ * of delete headers `clearSession` must emit when it can't see the request.
+ */
+export const SESSION_MAX_COOKIE_CHUNKS = 5;
+
+/** Name of the `index`-th chunk of the session cookie `name`. */
+export function getSessionChunkCookieName(name: string, index: number): string {
+  return `${name}.${index}`;
+}
+
+/**
+ * Split `value` into the fewest pieces whose serialized chunk cookies each
+ * fit within {@link SESSION_MAX_COOKIE_BYTES}.
+ *
+ * Sizes are measured on the exact header `serializeCookie` will emit, so
+ * characters that `encodeURIComponent` expands are accounted for. Splits
+ * fall on code-point boundaries, keeping each chunk independently encodable.
+ *
+ * @returns The pieces, or `null` if `value` is too large to fit in
+ *   {@link SESSION_MAX_COOKIE_CHUNKS} chunks.
+ */
+export function splitSessionCookieValue(
+  name: string,
+  value: string,
+  options: CookieOptions,
+): string[] | null {
+  const encoder = new TextEncoder();
+  // Widest chunk name we could emit, so every chunk has the same budget.
+  const overhead = encoder.encode(
+    serializeCookie(
+      getSessionChunkCookieName(name, SESSION_MAX_COOKIE_CHUNKS - 1),
+      '',
+      options,
+    ),
+  ).byteLength;
+  const budget = SESSION_MAX_COOKIE_BYTES - overhead;
+  if (budget <= 0) return null;
+
+  const chunks: string[] = [];
+  let current = '';
+  let currentBytes = 0;
+  for (const char of value) {
+    const charBytes = encodeURIComponent(char).length;
+    if (currentBytes + charBytes > budget) {
+      chunks.push(current);
+      if (chunks.length === SESSION_MAX_COOKIE_CHUNKS) return null;
+      current = '';
+      currentBytes = 0;
+    }
+    current += char;
+    currentBytes += charBytes;
+  }
+  chunks.push(current);
+  return chunks;
+}
@@ -0,0 +1,72 @@
+import {
+  applyCookiePrefixAttributes,
+  applyCookiePrefixToName,
+  stripCookiePrefix,
+} from './cookiePrefix.js';
+
+describe('applyCookiePrefixToName', () => {
+  it('returns the name unchanged without a prefix', () => {
+    expect(applyCookiePrefixToName('wos-session', undefined)).toBe(
+      'wos-session',
+    );
+  });
+
+  it('prepends the prefix', () => {
+    expect(applyCookiePrefixToName('wos-session', '__Host-')).toBe(
+      '__Host-wos-session',
+    );
+    expect(applyCookiePrefixToName('wos-session', '__Secure-')).toBe(
+      '__Secure-wos-session',
+    );
+  });
+
+  it('does not double-prefix', () => {
+    expect(applyCookiePrefixToName('__Host-session', '__Host-')).toBe(
+      '__Host-session',
+    );
+  });
+});
+
+describe('stripCookiePrefix', () => {
+  it('removes a known prefix', () => {
+    expect(stripCookiePrefix('__Host-wos-session')).toBe('wos-session');
+    expect(stripCookiePrefix('__Secure-wos-session')).toBe('wos-session');
+  });
+
+  it('leaves other names alone', () => {
+    expect(stripCookiePrefix('wos-session')).toBe('wos-session');
+    expect(stripCookiePrefix('__Other-wos-session')).toBe(
+      '__Other-wos-session',
+    );
+  });
+});
+
+describe('applyCookiePrefixAttributes', () => {
+  const options = {
+    path: '/app',
+    domain: 'example.com',
+    secure: false,
+    httpOnly: true,
+    sameSite: 'lax' as const,
+  };
+
+  it('returns options unchanged without a prefix', () => {
+    expect(applyCookiePrefixAttributes(options, undefined)).toBe(options);
+  });
+
+  it('forces Secure for __Secure-', () => {
+    expect(applyCookiePrefixAttributes(options, '__Secure-')).toEqual({
+      ...options,
+      secure: true,
+    });
+  });
+
+  it('forces Secure, Path=/ and no Domain for __Host-', () => {
+    const result = applyCookiePrefixAttributes(options, '__Host-');
+
+    expect(result.secure).toBe(true);
+    expect(result.path).toBe('/');
+    expect(result).not.toHaveProperty('domain');
+    expect(options.domain).toBe('example.com');
+  });
+});
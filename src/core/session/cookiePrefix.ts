@@ -0,0 +1,51 @@
+import type { CookiePrefix } from '../config/types.js';
+import type { CookieOptions } from './types.js';
+
+/** Every prefix accepted by `AuthKitConfig.cookiePrefix`. */
+export const COOKIE_PREFIXES: readonly CookiePrefix[] = [
+  '__Host-',
+  '__Secure-',
+];
+
+/**
+ * Prepend `prefix` to `name`, unless the name already carries it (a
+ * `cookieName` configured as `__Host-session` is left alone).
+ */
+export function applyCookiePrefixToName(
+  name: string,
+  prefix: CookiePrefix | undefined,
+): string {
+  if (!prefix || name.startsWith(prefix)) return name;
+  return `${prefix}${name}`;
+}
+
+/**
+ * Strip a leading `__Host-` / `__Secure-` from `name`, if present.
+ */
+export function stripCookiePrefix(name: string): string {
+  for (const prefix of COOKIE_PREFIXES) {
+    if (name.startsWith(prefix)) return name.slice(prefix.length);
+  }
+  return name;
+}
+
+/**
+ * Force the attributes a browser requires before it accepts a prefixed
+ * cookie. Without them the `Set-Cookie` is silently discarded, so these
+ * override whatever the options were otherwise computed as:
+ *
+ * - `__Secure-`: `Secure`.
+ * - `__Host-`: `Secure`, `Path=/`, and no `Domain`.
+ */
+export function applyCookiePrefixAttributes(
+  options: CookieOptions,
+  prefix: CookiePrefix | undefined,
+): CookieOptions {
+  if (!prefix) return options;
+  const result: CookieOptions = { ...options, secure: true };
+  if (prefix === '__Host-') {
+    result.path = '/';
+    delete result.domain;
+  }
+  return result;
+}
@@ -0,0 +1,152 @@
+import { SignJWT, exportJWK, generateKeyPair } from 'jose';
+import { AccessTokenError } from '../errors.js';
+import {
+  createAccessTokenVerifier,
+  parseBearerToken,
+} from './createAccessTokenVerifier.js';
+
+async function makeSigner() {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'key_1', alg: 'RS256' };
+  const sign = (claims: Record<string, unknown>) =>
+    new SignJWT({
+      sid: 'session_1',
+      exp: Math.floor(Date.now() / 1000) + 300,
+      ...claims,
+    })
+      .setProtectedHeader({ alg: 'RS256', kid: 'key_1' })
+      .sign(privateKey);
+  return { jwks: { keys: [jwk] }, sign };
+}
+
+async function rejectionReason(promise: Promise<unknown>) {
+  const error = await promise.then(
+    () => null,
+    (e: unknown) => e,
+  );
+  expect(error).toBeInstanceOf(AccessTokenError);
+  return (error as AccessTokenError).reason;
+}
+
+describe('parseBearerToken', () => {
+  it('extracts the token from a Bearer header', () => {
+    expect(parseBearerToken('Bearer abc.def.ghi')).toBe('abc.def.ghi');
+    expect(parseBearerToken('bearer  abc.def.ghi ')).toBe('abc.def.ghi');
+  });
+
+  it('returns null for a missing or empty header', () => {
+    expect(parseBearerToken(undefined)).toBeNull();
+    expect(parseBearerToken(null)).toBeNull();
+    expect(parseBearerToken('  ')).toBeNull();
+  });
+
+  it('rejects other schemes and malformed values', () => {
+    for (const header of ['Basic dXNlcjpwYXNz', 'Bearer', 'Bearer a b']) {
+      expect(() => parseBearerToken(header)).toThrow(
+        expect.objectContaining({ reason: 'invalid_authorization_header' }),
+      );
+    }
+  });
+});
+
+describe('createAccessTokenVerifier', () => {
+  it('returns the verified claims', async () => {
+    const { jwks, sign } = await makeSigner();
+    const verifier = createAccessTokenVerifier({ clientId: 'client_1', jwks });
+
+    const claims = await verifier.verify(await sign({ org_id: 'org_1' }));
+
+    expect(claims.sid).toBe('session_1');
+    expect(claims.org_id).toBe('org_1');
+  });
+
+  it('verifies the token from an Authorization header', async () => {
+    const { jwks, sign } = await makeSigner();
+    const verifier = createAccessTokenVerifier({ clientId: 'client_1', jwks });
+
+    const claims = await verifier.verifyAuthorizationHeader(
+      `Bearer ${await sign({})}`,
+    );
+
+    expect(claims.sid).toBe('session_1');
+  });
+
+  it('rejects a missing header or token with missing_token', async () => {
+    const { jwks } = await makeSigner();
+    const verifier = createAccessTokenVerifier({ clientId: 'client_1', jwks });
+
+    expect(
+      await rejectionReason(verifier.verifyAuthorizationHeader(null)),
+    ).toBe('missing_token');
+    expect(await rejectionReason(verifier.verify(''))).toBe('missing_token');
+  });
+
+  it('rejects invalid tokens with the verification status', async () => {
+    const { jwks, sign } = await makeSigner();
+    const verifier = createAccessTokenVerifier({
+      clientId: 'client_1',
+      jwks,
+      audience: 'client_1',
+    });
+
+    expect(await rejectionReason(verifier.verify('not-a-jwt'))).toBe(
+      'malformed',
+    );
+    expect(
+      await rejectionReason(verifier.verify(await sign({ aud: 'client_2' }))),
+    ).toBe('invalid_claims');
+    expect(
+      await rejectionReason(
+        verifier.verify(
+          await sign({
+            aud: 'client_1',
+            exp: Math.floor(Date.now() / 1000) - 60,
+          }),
+        ),
+      ),
+    ).toBe('expired');
+  });
+
+  it('validates and merges custom claims through the schema', async () => {
+    const { jwks, sign } = await makeSigner();
+    const verifier = createAccessTokenVerifier({
+      clientId: 'client_1',
+      jwks,
+      claimsSchema: {
+        parse(claims: unknown) {
+          const { tier } = claims as { tier?: unknown };
+          if (tier !== undefined && typeof tier !== 'string') {
+            throw new TypeError('tier must be a string');
+          }
+          return { tier: tier ?? 'free' };
+        },
+      },
+    });
+
+    const claims = await verifier.verify(await sign({}));
+    expect(claims.tier).toBe('free');
+    expect(claims.sid).toBe('session_1');
+
+    const rejected = verifier.verify(await sign({ tier: 42 }));
+    expect(await rejectionReason(rejected)).toBe('invalid_claims');
+  });
+
+  it('fetches the JWKS for the client from the WorkOS API', async () => {
+    const { jwks, sign } = await makeSigner();
+    const fetchSpy = vi
+      .spyOn(globalThis, 'fetch')
+      .mockImplementation(async () => Response.json(jwks));
+
+    try {
+      const verifier = createAccessTokenVerifier({ clientId: 'client_1' });
+      await verifier.verify(await sign({}));
+
+      expect(fetchSpy).toHaveBeenCalledWith(
+        'https://api.workos.com/sso/jwks/client_1',
+        expect.anything(),
+      );
+    } finally {
+      fetchSpy.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,149 @@
+import { AccessTokenError } from '../errors.js';
+import { createJwksKeySet, type JwksKeySetOptions } from './jwksKeySet.js';
+import type { BaseTokenClaims, CustomClaims } from './types.js';
+import {
+  type AccessTokenClaimOptions,
+  verifyAccessToken,
+} from './verifyAccessToken.js';
+
+/**
+ * Validates custom claims. Anything with a throwing `parse` works, e.g. a
+ * zod object schema.
+ */
+export interface ClaimsSchema<TCustomClaims> {
+  parse(claims: unknown): TCustomClaims;
+}
+
+export interface AccessTokenVerifierOptions<TCustomClaims = CustomClaims>
+  extends AccessTokenClaimOptions, JwksKeySetOptions {
+  /** The WorkOS Client ID the tokens were issued for. */
+  clientId: string;
+  /** Hostname of the WorkOS API serving the JWKS. Defaults to `api.workos.com`. */
+  apiHostname?: string;
+  /** Full JWKS URL, overriding the one derived from `apiHostname`. */
+  jwksUrl?: string | URL;
+  /**
+   * Validates the verified payload. Its output is merged over the raw
+   * claims, so transforms and defaults apply.
+   */
+  claimsSchema?: ClaimsSchema<TCustomClaims>;
+}
+
+export interface AccessTokenVerifier<TCustomClaims = CustomClaims> {
+  /**
+   * Verify an access token.
+   *
+   * @throws {AccessTokenError} If the token is invalid, expired, fails the
+   *   claims schema, or the JWKS is unavailable
+   */
+  verify(token: string): Promise<BaseTokenClaims & TCustomClaims>;
+  /**
+   * Verify the bearer token from an `Authorization` header value.
+   *
+   * @throws {AccessTokenError} As `verify`, or with `missing_token` /
+   *   `invalid_authorization_header` when there's no usable bearer token
+   */
+  verifyAuthorizationHeader(
+    header: string | null | undefined,
+  ): Promise<BaseTokenClaims & TCustomClaims>;
+}
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)\s*$/i;
+
+/**
+ * Extract the token from an `Authorization: Bearer <token>` header value.
+ *
+ * @returns The token, or null when the header is absent or empty
+ * @throws {AccessTokenError} `invalid_authorization_header` when the header
+ *   uses another scheme or isn't well-formed
+ */
+export function parseBearerToken(
+  header: string | null | undefined,
+): string | null {
+  if (!header?.trim()) return null;
+
+  const match = BEARER_PATTERN.exec(header.trim());
+  if (!match) {
+    throw new AccessTokenError(
+      'Authorization header must use the Bearer scheme',
+      'invalid_authorization_header',
+    );
+  }
+  return match[1] ?? null;
+}
+
+/**
+ * Create a verifier for WorkOS access tokens presented as bearer tokens,
+ * e.g. by backend services receiving `auth.accessToken` from a frontend.
+ *
+ * Needs only the client ID: no cookie password, redirect URI or API key.
+ * The JWKS is fetched once and cached, with the same static / preloaded key
+ * support as `AuthKitCore`.
+ *
+ * @example
+ * ```typescript
+ * const verifier = createAccessTokenVerifier({ clientId: 'client_...' });
+ *
+ * const claims = await verifier.verifyAuthorizationHeader(
+ *   request.headers.get('authorization'),
+ * );
+ * ```
+ */
+export function createAccessTokenVerifier<TCustomClaims = CustomClaims>(
+  options: AccessTokenVerifierOptions<TCustomClaims>,
+): AccessTokenVerifier<TCustomClaims> {
+  const { clientId, apiHostname = 'api.workos.com', claimsSchema } = options;
+  const jwksUrl = new URL(
+    options.jwksUrl ?? `https://${apiHostname}/sso/jwks/${clientId}`,
+  );
+  const keySet = createJwksKeySet(jwksUrl, options);
+
+  const verify = async (
+    token: string,
+  ): Promise<BaseTokenClaims & TCustomClaims> => {
+    if (!token) {
+      throw new AccessTokenError('Access token is missing', 'missing_token');
+    }
+
+    const result = await verifyAccessToken<TCustomClaims>(token, keySet, {
+      algorithms: options.algorithms,
+      issuer: options.issuer,
+      audience: options.audience,
+      clockTolerance: options.clockTolerance,
+    });
+    if (result.status !== 'valid') {
+      throw new AccessTokenError(
+        `Access token rejected: ${result.status}`,
+        result.status,
+        result.error,
+      );
+    }
+    if (!claimsSchema) return result.claims;
+
+    let parsed: TCustomClaims;
+    try {
+      parsed = claimsSchema.parse(result.claims);
+    } catch (error) {
+      throw new AccessTokenError(
+        'Access token claims failed validation',
+        'invalid_claims',
+        error,
+      );
+    }
+    return { ...result.claims, ...parsed };
+  };
+
+  return {
+    verify,
+    async verifyAuthorizationHeader(header) {
+      const token = parseBearerToken(header);
+      if (!token) {
+        throw new AccessTokenError(
+          'Authorization header is missing',
+          'missing_token',
+        );
+      }
+      return verify(token);
+    },
+  };
+}
@@ -0,0 +1,134 @@
+import { SignJWT, errors, exportJWK, generateKeyPair, jwtVerify } from 'jose';
+import { createJwksKeySet } from './jwksKeySet.js';
+
+const jwksUrl = new URL('https://api.workos.com/sso/jwks/client_123');
+
+async function makeKey(kid: string) {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid, alg: 'RS256' };
+  const sign = () =>
+    new SignJWT({ sid: 'session_1' })
+      .setProtectedHeader({ alg: 'RS256', kid })
+      .sign(privateKey);
+  return { jwk, sign };
+}
+
+function mockRemoteJwks(keys: unknown[]) {
+  return vi
+    .spyOn(globalThis, 'fetch')
+    .mockImplementation(async () => Response.json({ keys }));
+}
+
+describe('createJwksKeySet', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('verifies with static keys without fetching', async () => {
+    const fetchSpy = mockRemoteJwks([]);
+    const { jwk, sign } = await makeKey('key_1');
+    const keySet = createJwksKeySet(jwksUrl, { jwks: { keys: [jwk] } });
+
+    const { payload } = await jwtVerify(await sign(), keySet);
+
+    expect(payload.sid).toBe('session_1');
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('rejects a malformed static JWKS on use, not on creation', async () => {
+    const { sign } = await makeKey('key_1');
+    const keySet = createJwksKeySet(jwksUrl, {
+      jwks: { keys: 'not-a-list' } as any,
+    });
+
+    await expect(jwtVerify(await sign(), keySet)).rejects.toBeInstanceOf(
+      errors.JWKSInvalid,
+    );
+  });
+
+  it('fetches the remote JWKS for an unknown kid', async () => {
+    const known = await makeKey('key_1');
+    const rotated = await makeKey('key_2');
+    const fetchSpy = mockRemoteJwks([known.jwk, rotated.jwk]);
+    const keySet = createJwksKeySet(jwksUrl, { jwks: { keys: [known.jwk] } });
+
+    await jwtVerify(await known.sign(), keySet);
+    expect(fetchSpy).not.toHaveBeenCalled();
+
+    const { payload } = await jwtVerify(await rotated.sign(), keySet);
+    expect(payload.sid).toBe('session_1');
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('loads a snapshot once and shares it across verifications', async () => {
+    const fetchSpy = mockRemoteJwks([]);
+    const { jwk, sign } = await makeKey('key_1');
+    const loadJwks = vi.fn(async () => ({ keys: [jwk] }));
+    const keySet = createJwksKeySet(jwksUrl, { loadJwks });
+
+    await Promise.all([
+      jwtVerify(await sign(), keySet),
+      jwtVerify(await sign(), keySet),
+    ]);
+
+    expect(loadJwks).toHaveBeenCalledTimes(1);
+    expect(fetchSpy).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the remote JWKS and retries when the loader fails', async () => {
+    const { jwk, sign } = await makeKey('key_1');
+    const fetchSpy = mockRemoteJwks([jwk]);
+    const loadJwks = vi
+      .fn()
+      .mockRejectedValueOnce(new Error('snapshot missing'))
+      .mockResolvedValue({ keys: [jwk] });
+    const keySet = createJwksKeySet(jwksUrl, { loadJwks });
+
+    await jwtVerify(await sign(), keySet);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+
+    await jwtVerify(await sign(), keySet);
+    expect(loadJwks).toHaveBeenCalledTimes(2);
+    expect(fetchSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('uses the remote JWKS when no local keys are configured', async () => {
+    const { jwk, sign } = await makeKey('key_1');
+    const fetchSpy = mockRemoteJwks([jwk]);
+    const keySet = createJwksKeySet(jwksUrl);
+
+    await jwtVerify(await sign(), keySet);
+
+    expect(fetchSpy).toHaveBeenCalledWith(jwksUrl.href, expect.anything());
+  });
+
+  it('opens a span around each remote fetch', async () => {
+    const { jwk, sign } = await makeKey('key_1');
+    mockRemoteJwks([jwk]);
+    const span = {
+      setAttribute: vi.fn(),
+      recordException: vi.fn(),
+      setStatus: vi.fn(),
+      end: vi.fn(),
+    };
+    const startActiveSpan = vi.fn(
+      (_name: string, fn: (s: unknown) => unknown) => fn(span),
+    );
+    const keySet = createJwksKeySet(jwksUrl, {
+      tracer: { startActiveSpan } as any,
+    });
+
+    await jwtVerify(await sign(), keySet);
+
+    expect(startActiveSpan).toHaveBeenCalledWith(
+      'authkit.jwks.fetch',
+      expect.any(Function),
+    );
+    expect(span.setAttribute).toHaveBeenCalledWith('url.full', jwksUrl.href);
+    expect(span.setAttribute).toHaveBeenCalledWith(
+      'http.response.status_code',
+      200,
+    );
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+});
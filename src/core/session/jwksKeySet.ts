@@ -0,0 +1,106 @@
+import {
+  createLocalJWKSet,
+  createRemoteJWKSet,
+  customFetch,
+  errors,
+  type FetchImplementation,
+  type JSONWebKeySet,
+  type JWTVerifyGetKey,
+  type RemoteJWKSetOptions,
+} from 'jose';
+import { once } from '../../utils.js';
+import { traced, type Tracer } from '../tracer.js';
+
+/**
+ * Loads a JWKS snapshot (from disk, a secret store, a build artifact, ...)
+ * to verify tokens without fetching the WorkOS key set first.
+ */
+export type JwksLoader = () => JSONWebKeySet | Promise<JSONWebKeySet>;
+
+export interface JwksKeySetOptions {
+  /** Keys known up front. Takes precedence over `loadJwks`. */
+  jwks?: JSONWebKeySet;
+  /**
+   * Loads keys on first use. A failed or invalid load falls back to the
+   * remote key set and is retried on the next verification.
+   */
+  loadJwks?: JwksLoader;
+  /** Passed to `createRemoteJWKSet` for the fallback fetch. */
+  remote?: RemoteJWKSetOptions;
+  /** Opens an `authkit.jwks.fetch` span around each remote fetch. */
+  tracer?: Tracer;
+}
+
+/**
+ * Key resolver that checks a static or preloaded JWKS first and fetches
+ * `url` only for a `kid` it doesn't contain (e.g. after a key rotation).
+ * Without local keys it behaves exactly like `createRemoteJWKSet`.
+ */
+export function createJwksKeySet(
+  url: URL,
+  options: JwksKeySetOptions = {},
+): JWTVerifyGetKey {
+  const getRemote = once(() =>
+    createRemoteJWKSet(url, withFetchSpan(options.remote, options.tracer)),
+  );
+  const getLocal = createLocalKeySetGetter(options);
+
+  return async (protectedHeader, token) => {
+    const local = await getLocal();
+    if (local) {
+      try {
+        return await local(protectedHeader, token);
+      } catch (error) {
+        if (!(error instanceof errors.JWKSNoMatchingKey)) throw error;
+      }
+    }
+    return getRemote()(protectedHeader, token);
+  };
+}
+
+function withFetchSpan(
+  remote: RemoteJWKSetOptions | undefined,
+  tracer: Tracer | undefined,
+): RemoteJWKSetOptions | undefined {
+  if (!tracer) return remote;
+
+  const fetchJwks: FetchImplementation =
+    remote?.[customFetch] ?? ((url, init) => fetch(url, init));
+  return {
+    ...remote,
+    [customFetch]: (url, init) =>
+      traced(tracer, 'authkit.jwks.fetch', async span => {
+        span.setAttribute('url.full', url);
+        const response = await fetchJwks(url, init);
+        span.setAttribute('http.response.status_code', response.status);
+        return response;
+      }),
+  };
+}
+
+function createLocalKeySetGetter({
+  jwks,
+  loadJwks,
+}: JwksKeySetOptions): () => Promise<JWTVerifyGetKey | null> {
+  if (jwks) {
+    // Built on first use, so a malformed `jwks` (JWKSInvalid) fails the
+    // verification as `jwks_unavailable` rather than escaping it.
+    const getStatic = once(() => createLocalJWKSet(jwks));
+    return async () => getStatic();
+  }
+  if (!loadJwks) {
+    return async () => null;
+  }
+
+  let pending: Promise<JWTVerifyGetKey | null> | undefined;
+  return () => {
+    pending ??= Promise.resolve()
+      .then(loadJwks)
+      .then(createLocalJWKSet)
+      .catch(() => {
+        pending = undefined;
+        return null;
+      });
+    return pending;
+  };
+}
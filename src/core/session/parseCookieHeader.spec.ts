@@ -0,0 +1,109 @@
+import { selectStalePKCEVerifierCookieNames } from '../pkce/eviction.js';
+import { getCookieFromHeader, parseCookieHeader } from './parseCookieHeader.js';
+import { serializeCookie } from './serializeCookie.js';
+
+describe('parseCookieHeader', () => {
+  it('returns an empty map for missing or empty headers', () => {
+    expect(parseCookieHeader(undefined).size).toBe(0);
+    expect(parseCookieHeader(null).size).toBe(0);
+    expect(parseCookieHeader('').size).toBe(0);
+  });
+
+  it('parses name/value pairs', () => {
+    const cookies = parseCookieHeader('a=1; b=2');
+
+    expect([...cookies]).toEqual([
+      ['a', '1'],
+      ['b', '2'],
+    ]);
+  });
+
+  it('tolerates missing and extra whitespace around pairs', () => {
+    const cookies = parseCookieHeader('a=1;b=2 ;\t c = 3 ');
+
+    expect(cookies.get('a')).toBe('1');
+    expect(cookies.get('b')).toBe('2');
+    expect(cookies.get('c')).toBe('3');
+  });
+
+  it('splits on the first "=" only', () => {
+    expect(parseCookieHeader('seal=Fe26.2**abc==').get('seal')).toBe(
+      'Fe26.2**abc==',
+    );
+  });
+
+  it('strips surrounding double quotes', () => {
+    expect(parseCookieHeader('a="quoted value"').get('a')).toBe('quoted value');
+  });
+
+  it('leaves a lone double quote untouched', () => {
+    expect(parseCookieHeader('a="').get('a')).toBe('"');
+  });
+
+  it('keeps the first occurrence of a duplicate name', () => {
+    // Browsers list more specific paths first (RFC 6265 §5.4).
+    expect(parseCookieHeader('a=path-specific; a=root').get('a')).toBe(
+      'path-specific',
+    );
+  });
+
+  it('URL-decodes values', () => {
+    expect(parseCookieHeader('a=x%2By%3D%20z').get('a')).toBe('x+y= z');
+  });
+
+  it('falls back to the raw value on malformed percent-encoding', () => {
+    expect(parseCookieHeader('a=100%; b=%E0%A4%A').get('a')).toBe('100%');
+    expect(parseCookieHeader('a=100%; b=%E0%A4%A').get('b')).toBe('%E0%A4%A');
+  });
+
+  it('treats a pair without "=" as a nameless cookie', () => {
+    const cookies = parseCookieHeader('orphan; a=1');
+
+    expect(cookies.get('')).toBe('orphan');
+    expect(cookies.get('a')).toBe('1');
+  });
+
+  it('ignores empty pairs', () => {
+    expect([...parseCookieHeader('a=1;; ;b=2').keys()]).toEqual(['a', 'b']);
+  });
+
+  it('inverts serializeCookie', () => {
+    const value = 'Fe26.2**a+b/c=~2';
+    const [pair] = serializeCookie('wos-session', value, { path: '/' }).split(
+      ';',
+    );
+
+    expect(parseCookieHeader(pair).get('wos-session')).toBe(value);
+  });
+
+  it('feeds selectStalePKCEVerifierCookieNames from the same map', () => {
+    const cookies = parseCookieHeader(
+      'wos-session=s; wos-auth-verifier-aaaaaaaa=1; wos-auth-verifier-bbbbbbbb=2',
+    );
+
+    const stale = selectStalePKCEVerifierCookieNames(cookies.keys(), {
+      keep: 'wos-auth-verifier-cccccccc',
+      max: 2,
+    });
+
+    expect(stale).toEqual([
+      'wos-auth-verifier-aaaaaaaa',
+      'wos-auth-verifier-bbbbbbbb',
+    ]);
+  });
+});
+
+describe('getCookieFromHeader', () => {
+  it('returns the decoded value of the named cookie', () => {
+    expect(getCookieFromHeader('a=1; b=x%2By', 'b')).toBe('x+y');
+  });
+
+  it('returns null when absent', () => {
+    expect(getCookieFromHeader('a=1', 'b')).toBeNull();
+    expect(getCookieFromHeader(undefined, 'b')).toBeNull();
+  });
+
+  it('does not match on name prefixes', () => {
+    expect(getCookieFromHeader('wos-session-old=1', 'wos-session')).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Parse a `Cookie` request header into a name → value map.
+ *
+ * The read-side counterpart of `serializeCookie`, following the RFC 6265bis
+ * cookie-string grammar:
+ *
+ * - Pairs are split on `;` and trimmed of surrounding whitespace.
+ * - The name/value split is on the FIRST `=`, so values may contain `=`.
+ *   A pair with no `=` is a nameless cookie: empty name, the pair as value.
+ * - A value wrapped in double quotes has the quotes removed.
+ * - Values are URL-decoded (inverting `serializeCookie`'s
+ *   `encodeURIComponent`). Malformed percent-encoding — e.g. a cookie set
+ *   by another app on the same domain — falls back to the raw value instead
+ *   of throwing.
+ *
+ * Duplicate names: the Cookie header carries no path or domain, but user
+ * agents SHOULD list cookies with longer (more specific) paths first
+ * (RFC 6265 §5.4 step 2), and all major browsers do. The FIRST occurrence
+ * wins, so a cookie scoped to the current path takes precedence over a
+ * same-named cookie on `/`.
+ *
+ * The keys of the returned map can be passed straight to
+ * `selectStalePKCEVerifierCookieNames`:
+ *
+ * @example
+ * ```typescript
+ * const cookies = parseCookieHeader(request.headers.get('cookie'));
+ * const session = cookies.get('wos-session');
+ * const stale = selectStalePKCEVerifierCookieNames(cookies.keys(), { keep });
+ * ```
+ */
+export function parseCookieHeader(
+  header: string | null | undefined,
+): Map<string, string> {
+  const cookies = new Map<string, string>();
+  if (!header) return cookies;
+
+  for (const pair of header.split(';')) {
+    const index = pair.indexOf('=');
+    const name = index === -1 ? '' : trimWhitespace(pair.slice(0, index));
+    if (cookies.has(name)) continue;
+
+    let value = trimWhitespace(index === -1 ? pair : pair.slice(index + 1));
+    if (index === -1 && value === '') continue;
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+    cookies.set(name, decodeCookieValue(value));
+  }
+
+  return cookies;
+}
+
+/**
+ * Read a single cookie from a `Cookie` request header.
+ *
+ * Same semantics as {@link parseCookieHeader}; convenient for
+ * `SessionStorage.getCookie` implementations.
+ *
+ * @returns The URL-decoded value, or null if the cookie is absent.
+ */
+export function getCookieFromHeader(
+  header: string | null | undefined,
+  name: string,
+): string | null {
+  return parseCookieHeader(header).get(name) ?? null;
+}
+
+/** Trim SP and HTAB only — the whitespace RFC 6265bis allows around pairs. */
+function trimWhitespace(input: string): string {
+  return input.replace(/^[ \t]+|[ \t]+$/g, '');
+}
+
+function decodeCookieValue(value: string): string {
+  if (!value.includes('%')) return value;
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
@@ -1,5 +1,11 @@
-import type { Impersonator, User, WorkOS } from '@workos-inc/node';
+import type {
+  AuthenticationResponse,
+  Impersonator,
+  User,
+  WorkOS,
+} from '@workos-inc/node';
 import type { JWTPayload } from 'jose';
+import type { AuthKitError } from '../errors.js';
 
 export interface BaseTokenClaims extends JWTPayload {
   sid: string;
@@ -13,6 +19,53 @@ export interface BaseTokenClaims extends JWTPayload {
 
 export type CustomClaims = Record<string, unknown>;
 
+/**
+ * Outcome of verifying an access token, discriminated on `status`.
+ *
+ * Only `valid` carries claims. Failures carry the underlying `jose` error.
+ */
+export type TokenVerificationResult<TCustomClaims = CustomClaims> =
+  | { status: 'valid'; claims: BaseTokenClaims & TCustomClaims }
+  | {
+      status:
+        | 'expired'
+        | 'invalid_signature'
+        | 'malformed'
+        | 'invalid_claims'
+        | 'jwks_unavailable';
+      error: unknown;
+    };
+
+/**
+ * How the user authenticated, as reported by WorkOS (e.g. `GoogleOAuth`,
+ * `SSO`, `Password`).
+ */
+export type AuthenticationMethod = NonNullable<
+  AuthenticationResponse['authenticationMethod']
+>;
+
+/**
+ * Facts about the sign-in that created a session.
+ *
+ * Recorded by `handleCallback` from the code-exchange response and carried
+ * unchanged through every token refresh.
+ */
+export interface SessionMetadata {
+  /**
+   * How the user authenticated, when WorkOS reports it
+   */
+  authenticationMethod?: AuthenticationMethod;
+  /**
+   * When the user signed in, in seconds since the Unix epoch
+   */
+  signedInAt: number;
+  /**
+   * The organization the user signed in to, if any. Unlike
+   * `AuthResult.organizationId`, this does not follow `switchOrganization`.
+   */
+  organizationId?: string;
+}
+
 /**
  * Authentication result - discriminated union based on user presence.
  *
@@ -35,20 +88,103 @@ export type AuthResult<TCustomClaims = Record<string, unknown>> =
   | {
       user: null;
     }
-  | {
-      user: User;
-      sessionId: string;
-      accessToken: string;
+  | (AuthenticatedFields<TCustomClaims> & {
+      /**
+       * Authenticated by the session cookie. `withAuth` always sets it;
+       * optional so results built by hand (mocks, custom middleware) without
+       * it still type-check. Test `source === 'bearer'` to tell the two apart.
+       */
+      source?: 'cookie';
       refreshToken: string;
-      claims: BaseTokenClaims & TCustomClaims;
-      organizationId?: string;
-      role?: string;
-      roles?: string[];
-      permissions?: string[];
-      entitlements?: string[];
-      featureFlags?: string[];
       impersonator?: Impersonator;
-    };
+      /**
+       * Sign-in metadata. Absent for sessions created before it was recorded.
+       */
+      sessionMetadata?: SessionMetadata;
+    })
+  | (AuthenticatedFields<TCustomClaims> & {
+      /**
+       * Authenticated by an `Authorization: Bearer` access token
+       * (`acceptBearerTokens`). There is no session to refresh, so no
+       * refresh token.
+       */
+      source: 'bearer';
+      refreshToken?: undefined;
+      impersonator?: undefined;
+      sessionMetadata?: undefined;
+    });
+
+/**
+ * Why `withAuth` returned `{ user: null }`.
+ *
+ * - `no_session`: the request carried no session cookie (or bearer token).
+ * - `session_expired`: the session was idle past `sessionIdleTimeout` or
+ *   older than `sessionMaxLifetime`, and was cleared.
+ * - `storage_failed`: the session storage couldn't be read or cleared.
+ * - `decrypt_failed`: the session couldn't be unsealed, e.g. after the
+ *   `cookiePassword` changed.
+ * - `user_load_failed`: the `userLoader` of a slim session threw.
+ * - `refresh_failed`: the access token needed a refresh and it failed, e.g.
+ *   the session was revoked.
+ * - `verification_unavailable`: the JWKS couldn't be fetched, so the access
+ *   token couldn't be verified.
+ * - `invalid_token`: a bearer token (`acceptBearerTokens`) was rejected, or
+ *   the session's access token has claims that don't match the configured
+ *   `issuer`/`audience` (before or after a refresh).
+ * - `encrypt_failed`: the refreshed session couldn't be sealed.
+ */
+export type WithAuthFailureReason =
+  | 'no_session'
+  | 'session_expired'
+  | 'storage_failed'
+  | 'decrypt_failed'
+  | 'user_load_failed'
+  | 'refresh_failed'
+  | 'verification_unavailable'
+  | 'invalid_token'
+  | 'encrypt_failed';
+
+/**
+ * A `withAuth` failure caused by an error, as passed to `onError`.
+ */
+export interface WithAuthFailure {
+  reason: Exclude<WithAuthFailureReason, 'no_session' | 'session_expired'>;
+  error: AuthKitError;
+}
+
+/**
+ * Result of `AuthService.withAuth`.
+ */
+export interface WithAuthResult<TCustomClaims = Record<string, unknown>> {
+  auth: AuthResult<TCustomClaims>;
+  /**
+   * Sealed session to write back when the tokens were refreshed or the
+   * session was re-sealed with the current cookie password.
+   */
+  refreshedSessionData?: string;
+  /** Headers to apply to the response, e.g. clearing a timed-out session. */
+  headers?: HeadersBag;
+  /** Why the request is signed out. Absent when authenticated. */
+  reason?: WithAuthFailureReason;
+  /** The error behind `reason`, except for `no_session` and `session_expired`. */
+  error?: AuthKitError;
+}
+
+/**
+ * Fields shared by every authenticated `AuthResult`, whatever its source.
+ */
+export interface AuthenticatedFields<TCustomClaims = Record<string, unknown>> {
+  user: User;
+  sessionId: string;
+  accessToken: string;
+  claims: BaseTokenClaims & TCustomClaims;
+  organizationId?: string;
+  role?: string;
+  roles?: string[];
+  permissions?: string[];
+  entitlements?: string[];
+  featureFlags?: string[];
+}
 
 /**
  * AuthKit Session
@@ -70,6 +206,22 @@ export interface Session {
    * The impersonator user, if any
    */
   impersonator?: Impersonator;
+  /**
+   * When the user signed in, in seconds since the Unix epoch.
+   * Absent on sessions sealed before lifetime tracking was added.
+   */
+  createdAt?: number;
+  /**
+   * When the session was last refreshed, or stamped active by `withAuth`
+   * (see `sessionIdleTimeout`), in seconds since the Unix epoch.
+   * Absent on sessions sealed before lifetime tracking was added.
+   */
+  lastActiveAt?: number;
+  /**
+   * Sign-in metadata.
+   * Absent on sessions sealed before it was recorded.
+   */
+  metadata?: SessionMetadata;
 }
 
 /**
@@ -130,6 +282,14 @@ export interface SessionStorage<TRequest, TResponse, TOptions = unknown> {
    */
   getSession(request: TRequest): Promise<string | null>;
 
+  /**
+   * Read the `Authorization` header from a request. Only needed for
+   * `acceptBearerTokens`; without it bearer tokens are ignored.
+   * @param request Framework-specific request object.
+   * @returns The raw header value or null if absent.
+   */
+  getAuthorizationHeader?(request: TRequest): Promise<string | null>;
+
   /**
    * Save session data to a response object.
    * @param response The framework-specific response object.
@@ -153,11 +313,144 @@ export interface SessionStorage<TRequest, TResponse, TOptions = unknown> {
   ): Promise<{ response?: TResponse; headers?: HeadersBag }>;
 }
 
+/**
+ * Pluggable key-value backend for `ServerSideSessionStorage`.
+ *
+ * Values are opaque sealed session strings; keys are the random session IDs
+ * written to the session cookie. Implementations SHOULD honour `ttl` so
+ * abandoned sessions are reclaimed — the cookie's `Max-Age` bounds how long a
+ * browser presents an ID, not how long the record lives.
+ */
+export interface SessionStore {
+  /**
+   * Read a record.
+   * @param id Session ID from the cookie.
+   * @returns The stored value, or null if absent or expired.
+   */
+  get(id: string): Promise<string | null>;
+
+  /**
+   * Create or replace a record.
+   * @param id Session ID.
+   * @param value Sealed session string.
+   * @param ttl Lifetime in seconds. `0` or omitted means no expiry.
+   */
+  set(id: string, value: string, ttl?: number): Promise<void>;
+
+  /**
+   * Delete a record. MUST NOT throw when the record does not exist.
+   * @param id Session ID.
+   */
+  delete(id: string): Promise<void>;
+}
+
+/**
+ * Resolves the `User` for a slim session, whose seal carries only the user
+ * ID (see `AuthKitConfig.slimSessions`).
+ *
+ * Called on every session read, so implementations should cache. The default
+ * is `CachedUserLoader`.
+ */
+export interface UserLoader {
+  /**
+   * Load a user by ID.
+   * @param userId WorkOS user ID from the session.
+   * @returns The user. Throw if the user can't be loaded; the session is then
+   *   treated as signed out.
+   */
+  getUser(userId: string): Promise<User>;
+}
+
+/**
+ * Cross-process coordination for token refreshes.
+ *
+ * WorkOS refresh tokens are single-use: when several instances refresh the
+ * same token concurrently, all but one fail and their users are signed out.
+ * With a coordinator, the instance that acquires the lock for a refresh
+ * token performs the refresh and publishes the result; the others wait for
+ * it and reuse it.
+ *
+ * Keys are opaque hashes, never raw tokens. Published values are sealed with
+ * the cookie password, so a shared backend (Redis, a database) never sees
+ * plaintext tokens. `MemoryRefreshCoordinator` is the in-process reference
+ * implementation.
+ */
+export interface RefreshCoordinator {
+  /**
+   * Try to take the refresh lock for `key`. MUST be atomic across every
+   * instance sharing the coordinator.
+   * @param key Refresh key.
+   * @param ttl Seconds after which the lock is released automatically, so a
+   *   crashed holder can't block refreshes forever.
+   * @returns true if this caller now holds the lock.
+   */
+  acquire(key: string, ttl: number): Promise<boolean>;
+
+  /**
+   * Release a lock taken with `acquire`. MUST NOT throw when the lock is not
+   * held.
+   * @param key Refresh key.
+   */
+  release(key: string): Promise<void>;
+
+  /**
+   * Publish the outcome of a refresh to current and future waiters.
+   *
+   * Anyone presenting the retired refresh token while the result is
+   * available gets the rotated session, so `ttl` is a replay window: a few
+   * seconds for waiters, or `refreshGraceTtl` when that is set.
+   * @param key Refresh key.
+   * @param value Sealed refresh result.
+   * @param ttl Seconds the result stays available.
+   */
+  publish(key: string, value: string, ttl: number): Promise<void>;
+
+  /**
+   * Wait for the result of a refresh another caller holds the lock for.
+   * MUST return a result published within its `ttl` immediately, whether or
+   * not the lock is still held. With `refreshGraceTtl` set, it is also
+   * called with a `timeout` of 0, before `acquire`, to check for one.
+   * @param key Refresh key.
+   * @param timeout Maximum seconds to wait.
+   * @returns The published value, or null if the lock was released without
+   *   one or `timeout` elapsed.
+   */
+  waitForResult(key: string, timeout: number): Promise<string | null>;
+}
+
+/**
+ * Short-lived cache of completed refreshes, keyed by a hash of the refresh
+ * token they consumed.
+ *
+ * Lets a request that arrives just after a refresh, still carrying the old
+ * cookie, reuse the rotated session instead of presenting a refresh token
+ * WorkOS has already retired. Values are sealed with the cookie password.
+ * Any `SessionStore` (including `MemorySessionStore`, the default) satisfies
+ * this interface; share one across instances to extend the grace window to
+ * the whole deployment.
+ */
+export interface RefreshResultCache {
+  /**
+   * @param key Refresh key.
+   * @returns The cached value, or null if absent or expired.
+   */
+  get(key: string): Promise<string | null>;
+
+  /**
+   * @param key Refresh key.
+   * @param value Sealed refresh result.
+   * @param ttl Lifetime in seconds.
+   */
+  set(key: string, value: string, ttl: number): Promise<void>;
+}
+
 export interface SessionEncryption {
   sealData: (
     data: unknown,
     options: {
       password: string;
+      /** ID of `password`, embedded in the seal. Defaults to `1`. */
+      passwordId?: string | undefined;
       ttl?: number | undefined;
     },
   ) => Promise<string>;
@@ -165,9 +458,27 @@ export interface SessionEncryption {
     encryptedData: string,
     options: {
       password: string;
+      /**
+       * Every accepted password by ID; the seal's embedded ID picks one.
+       * Defaults to `{ 1: password }`.
+       */
+      passwords?: Record<string, string> | undefined;
       ttl?: number | undefined;
     },
   ) => Promise<T>;
+  /**
+   * Read the password ID embedded in a seal without opening it, so sessions
+   * sealed with a rotated-out password can be re-sealed. Without it,
+   * sessions are only re-sealed when their tokens are refreshed.
+   *
+   * @returns The ID, or undefined if the seal doesn't carry one
+   */
+  getPasswordId?: (encryptedData: string) => string | undefined;
+  /**
+   * True for seals in a format this encryption reads but no longer writes,
+   * so `withAuth` re-seals them whatever their password ID.
+   */
+  needsReseal?: (encryptedData: string) => boolean;
 }
 
 /**
@@ -0,0 +1,144 @@
+import {
+  SignJWT,
+  createLocalJWKSet,
+  errors,
+  exportJWK,
+  generateKeyPair,
+} from 'jose';
+import { verifyAccessToken } from './verifyAccessToken.js';
+
+async function makeSigner() {
+  const { publicKey, privateKey } = await generateKeyPair('RS256');
+  const jwk = { ...(await exportJWK(publicKey)), kid: 'key_1', alg: 'RS256' };
+  const jwks = createLocalJWKSet({ keys: [jwk] });
+  const sign = (claims: Record<string, unknown>, key = privateKey) =>
+    new SignJWT(claims)
+      .setProtectedHeader({ alg: 'RS256', kid: 'key_1' })
+      .sign(key);
+  return { jwks, sign };
+}
+
+describe('verifyAccessToken', () => {
+  it('returns valid with the verified claims', async () => {
+    const { jwks, sign } = await makeSigner();
+    const exp = Math.floor(Date.now() / 1000) + 300;
+    const token = await sign({ sid: 'session_1', exp });
+
+    const result = await verifyAccessToken(token, jwks);
+
+    expect(result).toEqual({
+      status: 'valid',
+      claims: { sid: 'session_1', exp },
+    });
+  });
+
+  it('classifies expired tokens', async () => {
+    const { jwks, sign } = await makeSigner();
+    const token = await sign({ exp: Math.floor(Date.now() / 1000) - 60 });
+
+    const result = await verifyAccessToken(token, jwks);
+
+    expect(result.status).toBe('expired');
+  });
+
+  it('classifies tokens signed with another key', async () => {
+    const { jwks } = await makeSigner();
+    const other = await generateKeyPair('RS256');
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: 'RS256', kid: 'key_1' })
+      .sign(other.privateKey);
+
+    const result = await verifyAccessToken(token, jwks);
+
+    expect(result.status).toBe('invalid_signature');
+  });
+
+  it('rejects non-RS256 tokens as invalid_signature without fetching keys', async () => {
+    const getKey = vi.fn();
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: 'HS256' })
+      .sign(new Uint8Array(32));
+
+    const result = await verifyAccessToken(token, getKey);
+
+    expect(result.status).toBe('invalid_signature');
+    expect(getKey).not.toHaveBeenCalled();
+  });
+
+  it('accepts other algorithms only when configured', async () => {
+    const { publicKey, privateKey } = await generateKeyPair('ES256');
+    const jwks = createLocalJWKSet({
+      keys: [{ ...(await exportJWK(publicKey)), kid: 'key_es' }],
+    });
+    const token = await new SignJWT({})
+      .setProtectedHeader({ alg: 'ES256', kid: 'key_es' })
+      .sign(privateKey);
+
+    expect((await verifyAccessToken(token, jwks)).status).toBe(
+      'invalid_signature',
+    );
+    expect(
+      (
+        await verifyAccessToken(token, jwks, {
+          algorithms: ['RS256', 'ES256'],
+        })
+      ).status,
+    ).toBe('valid');
+  });
+
+  it('rejects tokens from another issuer or audience', async () => {
+    const { jwks, sign } = await makeSigner();
+    const token = await sign({ iss: 'https://other.example', aud: 'client_b' });
+
+    const wrongIssuer = await verifyAccessToken(token, jwks, {
+      issuer: 'https://api.workos.com',
+    });
+    const wrongAudience = await verifyAccessToken(token, jwks, {
+      audience: 'client_a',
+    });
+    const matching = await verifyAccessToken(token, jwks, {
+      issuer: 'https://other.example',
+      audience: 'client_b',
+    });
+
+    expect(wrongIssuer.status).toBe('invalid_claims');
+    expect(wrongAudience.status).toBe('invalid_claims');
+    expect(matching.status).toBe('valid');
+  });
+
+  it('tolerates clock skew within clockTolerance', async () => {
+    const { jwks, sign } = await makeSigner();
+    const token = await sign({ exp: Math.floor(Date.now() / 1000) - 30 });
+
+    expect((await verifyAccessToken(token, jwks)).status).toBe('expired');
+    expect(
+      (await verifyAccessToken(token, jwks, { clockTolerance: 60 })).status,
+    ).toBe('valid');
+  });
+
+  it('classifies non-JWT input as malformed', async () => {
+    const { jwks } = await makeSigner();
+
+    const result = await verifyAccessToken('not-a-jwt', jwks);
+
+    expect(result.status).toBe('malformed');
+  });
+
+  it('classifies key set failures as jwks_unavailable', async () => {
+    const { sign } = await makeSigner();
+    const token = await sign({});
+
+    const timeout = await verifyAccessToken(token, async () => {
+      throw new errors.JWKSTimeout();
+    });
+    const network = await verifyAccessToken(token, async () => {
+      throw new TypeError('fetch failed');
+    });
+
+    expect(timeout.status).toBe('jwks_unavailable');
+    expect(network.status).toBe('jwks_unavailable');
+    if (network.status !== 'valid') {
+      expect(network.error).toBeInstanceOf(TypeError);
+    }
+  });
+});
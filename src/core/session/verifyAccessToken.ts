@@ -0,0 +1,90 @@
+import { errors, jwtVerify, type JWTVerifyGetKey } from 'jose';
+import type {
+  BaseTokenClaims,
+  CustomClaims,
+  TokenVerificationResult,
+} from './types.js';
+
+/**
+ * Signing algorithms accepted for WorkOS access tokens unless configured
+ * otherwise. Pinning the algorithm rejects tokens that aren't WorkOS-shaped
+ * before any JWKS fetch.
+ */
+export const DEFAULT_ACCESS_TOKEN_ALGORITHMS = ['RS256'];
+
+/**
+ * Checks applied on top of the signature and expiry.
+ */
+export interface AccessTokenClaimOptions {
+  /**
+   * Accepted signing algorithms. Defaults to
+   * {@link DEFAULT_ACCESS_TOKEN_ALGORITHMS}.
+   */
+  algorithms?: string[];
+  /** Required `iss` claim. */
+  issuer?: string;
+  /** Required `aud` claim. */
+  audience?: string;
+  /** Seconds of clock skew tolerated for `exp`, `nbf` and `iat`. */
+  clockTolerance?: number;
+}
+
+/**
+ * Verify an access token and classify any failure.
+ *
+ * - `expired`: signature checks out but `exp` has passed — refreshable.
+ * - `invalid_signature`: wrong algorithm, unknown key, or bad signature.
+ * - `malformed`: not a JWT, or its claims can't be parsed.
+ * - `invalid_claims`: the signature checks out but a claim doesn't match,
+ *   e.g. the configured `issuer` or `audience`. Not refreshable: a refresh
+ *   would mint another token with the same claims.
+ * - `jwks_unavailable`: the key set couldn't be fetched or parsed, so the
+ *   token's validity is unknown.
+ */
+export async function verifyAccessToken<TCustomClaims = CustomClaims>(
+  token: string,
+  key: JWTVerifyGetKey,
+  options: AccessTokenClaimOptions = {},
+): Promise<TokenVerificationResult<TCustomClaims>> {
+  try {
+    const { payload } = await jwtVerify<BaseTokenClaims & TCustomClaims>(
+      token,
+      key,
+      {
+        algorithms: options.algorithms ?? DEFAULT_ACCESS_TOKEN_ALGORITHMS,
+        issuer: options.issuer,
+        audience: options.audience,
+        clockTolerance: options.clockTolerance,
+      },
+    );
+    return { status: 'valid', claims: payload };
+  } catch (error) {
+    return { status: classifyVerificationError(error), error };
+  }
+}
+
+function classifyVerificationError(
+  error: unknown,
+): Exclude<TokenVerificationResult['status'], 'valid'> {
+  if (error instanceof errors.JWTExpired) return 'expired';
+  if (
+    error instanceof errors.JWSSignatureVerificationFailed ||
+    error instanceof errors.JOSEAlgNotAllowed ||
+    error instanceof errors.JOSENotSupported ||
+    error instanceof errors.JWKSNoMatchingKey ||
+    error instanceof errors.JWKSMultipleMatchingKeys
+  ) {
+    return 'invalid_signature';
+  }
+  // After JWTExpired, which extends it.
+  if (error instanceof errors.JWTClaimValidationFailed) return 'invalid_claims';
+  if (
+    error instanceof errors.JWSInvalid ||
+    error instanceof errors.JWTInvalid
+  ) {
+    return 'malformed';
+  }
+  // JWKSTimeout, JWKSInvalid, non-200 / unparseable responses, and network
+  // errors from fetch itself.
+  return 'jwks_unavailable';
+}
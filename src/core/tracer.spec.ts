@@ -0,0 +1,56 @@
+import { noopTracer, traced, type Span, type Tracer } from './tracer.js';
+
+function makeSpan() {
+  return {
+    setAttribute: vi.fn(),
+    recordException: vi.fn(),
+    setStatus: vi.fn(),
+    end: vi.fn(),
+  };
+}
+
+function makeTracer(span: Span): Tracer {
+  return {
+    startActiveSpan: (_name, fn) => fn(span) as ReturnType<typeof fn>,
+  };
+}
+
+describe('traced', () => {
+  it('returns the result and ends the span', async () => {
+    const span = makeSpan();
+
+    const result = await traced(makeTracer(span), 'op', async active => {
+      active.setAttribute('refreshed', true);
+      return 42;
+    });
+
+    expect(result).toBe(42);
+    expect(span.setAttribute).toHaveBeenCalledWith('refreshed', true);
+    expect(span.setStatus).not.toHaveBeenCalled();
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('records a rejection, marks the span failed and rethrows', async () => {
+    const span = makeSpan();
+    const error = new Error('refresh failed');
+
+    await expect(
+      traced(makeTracer(span), 'op', async () => {
+        throw error;
+      }),
+    ).rejects.toBe(error);
+
+    expect(span.recordException).toHaveBeenCalledWith(error);
+    expect(span.setStatus).toHaveBeenCalledWith({
+      code: 2,
+      message: 'refresh failed',
+    });
+    expect(span.end).toHaveBeenCalledOnce();
+  });
+
+  it('runs the function with the no-op tracer', async () => {
+    await expect(traced(noopTracer, 'op', async () => 'ok')).resolves.toBe(
+      'ok',
+    );
+  });
+});
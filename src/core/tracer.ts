@@ -0,0 +1,68 @@
+/** Values a span attribute can hold. */
+export type SpanAttributeValue = string | number | boolean;
+
+/**
+ * The part of an OpenTelemetry `Span` AuthKit uses.
+ */
+export interface Span {
+  setAttribute(key: string, value: SpanAttributeValue): unknown;
+  recordException(exception: Error): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  end(): unknown;
+}
+
+/**
+ * Injectable tracer. Shaped like OpenTelemetry's `Tracer`, so
+ * `trace.getTracer('authkit')` can be passed as is, without AuthKit
+ * depending on `@opentelemetry/api`.
+ */
+export interface Tracer {
+  startActiveSpan<F extends (span: Span) => unknown>(
+    name: string,
+    fn: F,
+  ): ReturnType<F>;
+}
+
+/** `SpanStatusCode.ERROR` in OpenTelemetry. */
+const SPAN_STATUS_ERROR = 2;
+
+const noopSpan: Span = {
+  setAttribute: () => {},
+  recordException: () => {},
+  setStatus: () => {},
+  end: () => {},
+};
+
+/** Tracer that records nothing. The default. */
+export const noopTracer: Tracer = {
+  startActiveSpan<F extends (span: Span) => unknown>(
+    _name: string,
+    fn: F,
+  ): ReturnType<F> {
+    return fn(noopSpan) as ReturnType<F>;
+  },
+};
+
+/**
+ * Run `fn` in an active span that is ended when it settles. A rejection is
+ * recorded on the span and marks it as failed before being rethrown.
+ */
+export function traced<T>(
+  tracer: Tracer,
+  name: string,
+  fn: (span: Span) => Promise<T>,
+): Promise<T> {
+  return tracer.startActiveSpan(name, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      const exception =
+        error instanceof Error ? error : new Error(String(error));
+      span.recordException(exception);
+      span.setStatus({ code: SPAN_STATUS_ERROR, message: exception.message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
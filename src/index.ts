@@ -17,25 +17,70 @@
  * - JWT verification (JWKS with caching)
  * - Token refresh orchestration
  * - WorkOS API operations
- * - Session encryption fallback (iron-webcrypto, AES-256-CBC)
+ * - Session encryption fallback (iron-webcrypto, AES-256-CBC; or JWE, A256GCM)
  */
 
 // ============================================
 // Public API
 // ============================================
-export { AuthService } from './service/AuthService.js';
-export { createAuthService } from './service/factory.js';
+export { AuthService, type AuthServiceOptions } from './service/AuthService.js';
+export {
+  createAuthService,
+  type AuthServiceFactoryOptions,
+} from './service/factory.js';
+export type {
+  AuthLifecycleHooks,
+  HookExecution,
+  OrganizationSwitchedEvent,
+  RefreshFailedEvent,
+  SessionRefreshedEvent,
+  SignInEvent,
+  SignOutEvent,
+} from './service/hooks.js';
+export {
+  createAccessTokenVerifier,
+  parseBearerToken,
+  type AccessTokenVerifier,
+  type AccessTokenVerifierOptions,
+  type ClaimsSchema,
+} from './core/session/createAccessTokenVerifier.js';
 
 // ============================================
 // Advanced (Internal Layers)
 // ============================================
-export { AuthKitCore } from './core/AuthKitCore.js';
+export { AuthKitCore, type AuthKitCoreOptions } from './core/AuthKitCore.js';
 export { AuthOperations } from './operations/AuthOperations.js';
 
 // ============================================
 // Storage Helpers
 // ============================================
 export { CookieSessionStorage } from './core/session/CookieSessionStorage.js';
+export {
+  ServerSideSessionStorage,
+  type ServerSideSessionOptions,
+} from './core/session/ServerSideSessionStorage.js';
+export { MemorySessionStore } from './core/session/MemorySessionStore.js';
+export { FileSystemSessionStore } from './core/session/FileSystemSessionStore.js';
+export {
+  CachedUserLoader,
+  type CachedUserLoaderOptions,
+} from './core/session/CachedUserLoader.js';
+export {
+  createJwksKeySet,
+  type JwksKeySetOptions,
+  type JwksLoader,
+} from './core/session/jwksKeySet.js';
+export { MemoryRefreshCoordinator } from './core/refresh/MemoryRefreshCoordinator.js';
+export {
+  getCookieFromHeader,
+  parseCookieHeader,
+} from './core/session/parseCookieHeader.js';
+
+// ============================================
+// Storage Adapters
+// ============================================
+export { FetchSessionStorage } from './adapters/FetchSessionStorage.js';
+export { NodeHttpSessionStorage } from './adapters/NodeHttpSessionStorage.js';
 
 // ============================================
 // PKCE Helpers
@@ -54,6 +99,10 @@ export {
 // Encryption Fallback
 // ============================================
 export { default as sessionEncryption } from './core/encryption/ironWebcryptoEncryption.js';
+export {
+  default as jweEncryption,
+  JweSessionEncryption,
+} from './core/encryption/jweEncryption.js';
 
 // ============================================
 // Configuration
@@ -71,15 +120,60 @@ export { ConfigurationProvider } from './core/config/ConfigurationProvider.js';
 // ============================================
 export { getWorkOS } from './core/client/workos.js';
 
+// ============================================
+// Logging
+// ============================================
+export {
+  createRedactingLogger,
+  noopLogger,
+  redactFields,
+  type LogFields,
+  type Logger,
+} from './core/logger.js';
+
+// ============================================
+// Tracing
+// ============================================
+export {
+  noopTracer,
+  type Span,
+  type SpanAttributeValue,
+  type Tracer,
+} from './core/tracer.js';
+
+// ============================================
+// Metrics
+// ============================================
+export {
+  AuthMetric,
+  noopMetrics,
+  type MetricLabels,
+  type MetricsSink,
+} from './core/metrics/metrics.js';
+export {
+  DEFAULT_HISTOGRAM_BUCKETS,
+  InMemoryMetrics,
+  type CounterSample,
+  type HistogramSample,
+  type MetricsSnapshot,
+} from './core/metrics/InMemoryMetrics.js';
+export {
+  PROMETHEUS_CONTENT_TYPE,
+  formatPrometheusMetrics,
+} from './core/metrics/prometheus.js';
+
 // ============================================
 // Errors
 // ============================================
 export {
+  AccessTokenError,
+  type AccessTokenErrorReason,
   AuthKitError,
   OAuthStateMismatchError,
   PKCECookieMissingError,
   PKCEPayloadTooLargeError,
   SessionEncryptionError,
+  SessionPayloadTooLargeError,
   TokenValidationError,
   TokenRefreshError,
 } from './core/errors.js';
@@ -1,3 +1,4 @@
+import { getCookieKeyring } from '../core/encryption/cookiePasswords.js';
 import sessionEncryption from '../core/encryption/ironWebcryptoEncryption.js';
 import { unsealState } from '../core/pkce/state.js';
 import { AuthOperations } from './AuthOperations.js';
@@ -275,7 +276,7 @@ describe('AuthOperations', () => {
       });
       const unsealed = await unsealState(
         sessionEncryption,
-        mockConfig.cookiePassword,
+        getCookieKeyring(mockConfig),
         result.sealedState,
       );
 
@@ -289,7 +290,7 @@ describe('AuthOperations', () => {
       });
       const unsealed = await unsealState(
         sessionEncryption,
-        mockConfig.cookiePassword,
+        getCookieKeyring(mockConfig),
         result.sealedState,
       );
 
@@ -303,7 +304,7 @@ describe('AuthOperations', () => {
       });
       const unsealed = await unsealState(
         sessionEncryption,
-        mockConfig.cookiePassword,
+        getCookieKeyring(mockConfig),
         result.sealedState,
       );
 
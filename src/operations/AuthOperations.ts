@@ -12,6 +12,9 @@ import type {
   SessionEncryption,
 } from '../core/session/types.js';
 
+/** The `AuthResult` of a session refresh, which is always cookie-backed. */
+type CookieAuthResult = Extract<AuthResult, { refreshToken: string }>;
+
 /**
  * AuthOperations provides high-level authentication operations.
  *
@@ -73,7 +76,7 @@ export class AuthOperations {
     session: Session,
     organizationId: string,
   ): Promise<{
-    auth: AuthResult;
+    auth: CookieAuthResult;
     encryptedSession: string;
   }> {
     // Delegate to refreshSession with explicit organization
@@ -94,7 +97,7 @@ export class AuthOperations {
     session: Session,
     organizationId?: string,
   ): Promise<{
-    auth: AuthResult;
+    auth: CookieAuthResult;
     encryptedSession: string;
   }> {
     // Force refresh via core, optionally switching organizations
@@ -105,7 +108,8 @@ export class AuthOperations {
 
     const encryptedSession = await this.core.encryptSession(newSession);
 
-    const auth: AuthResult = {
+    const auth: CookieAuthResult = {
+      source: 'cookie',
       user: newSession.user,
       sessionId: claims.sid,
       impersonator: newSession.impersonator,
@@ -118,6 +122,7 @@ export class AuthOperations {
       permissions: claims.permissions,
       entitlements: claims.entitlements,
       featureFlags: claims.feature_flags,
+      sessionMetadata: newSession.metadata,
     };
 
     return {
@@ -1,8 +1,18 @@
 import sessionEncryption from '../core/encryption/ironWebcryptoEncryption.js';
 import {
+  AccessTokenError,
+  AuthKitError,
   OAuthStateMismatchError,
   PKCECookieMissingError,
+  SessionEncryptionError,
+  SessionPayloadTooLargeError,
+  TokenRefreshError,
+  TokenValidationError,
 } from '../core/errors.js';
+import { InMemoryMetrics } from '../core/metrics/InMemoryMetrics.js';
+import { AuthMetric } from '../core/metrics/metrics.js';
+import { CookieSessionStorage } from '../core/session/CookieSessionStorage.js';
+import type { CookieOptions } from '../core/session/types.js';
 import { AuthService } from './AuthService.js';
 
 const mockConfig = {
@@ -152,6 +162,66 @@ describe('AuthService', () => {
 
       expect(result.auth.user).toBeNull();
       expect(result.refreshedSessionData).toBeUndefined();
+      expect(result.reason).toBe('no_session');
+      expect(result.error).toBeUndefined();
+    });
+
+    it('opens a withAuth span describing the result', async () => {
+      const attributes: Record<string, unknown> = {};
+      const tracer = {
+        startActiveSpan: (name: string, fn: (span: unknown) => unknown) =>
+          fn({
+            setAttribute: (key: string, value: unknown) => {
+              if (name === 'authkit.withAuth') attributes[key] = value;
+            },
+            recordException: () => {},
+            setStatus: () => {},
+            end: () => {},
+          }),
+      };
+      const testService = new AuthService(
+        mockConfig as any,
+        makeStorage(null) as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { tracer: tracer as any },
+      );
+
+      await testService.withAuth('request');
+
+      expect(attributes).toEqual({
+        authenticated: false,
+        refreshed: false,
+        reason: 'no_session',
+      });
+    });
+
+    it('logs why the request is signed out', async () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      const testService = new AuthService(
+        mockConfig as any,
+        makeStorage('sealed-session') as any,
+        makeClient() as any,
+        {
+          sealData: async () => 'encrypted',
+          unsealData: async () => {
+            throw new Error('Decryption failed');
+          },
+        } as any,
+        { logger },
+      );
+
+      await testService.withAuth('request');
+
+      expect(logger.info).toHaveBeenCalledWith('Request signed out', {
+        reason: 'decrypt_failed',
+        error: expect.objectContaining({ name: 'SessionEncryptionError' }),
+      });
     });
 
     it('returns null user on decryption error', async () => {
@@ -161,16 +231,539 @@ describe('AuthService', () => {
           throw new Error('Decryption failed');
         },
       };
+      const onError = vi.fn();
       const testService = new AuthService(
         mockConfig as any,
         storage as any,
         makeClient() as any,
         failingEncryption as any,
+        { onError },
       );
 
       const result = await testService.withAuth('request');
 
       expect(result.auth.user).toBeNull();
+      expect(result.reason).toBe('decrypt_failed');
+      expect(result.error).toBeInstanceOf(SessionEncryptionError);
+      expect(onError).toHaveBeenCalledWith({
+        reason: 'decrypt_failed',
+        error: result.error,
+      });
+    });
+
+    it.each([
+      [new TokenRefreshError('Session revoked'), 'refresh_failed'],
+      [
+        new TokenValidationError('JWKS unavailable'),
+        'verification_unavailable',
+      ],
+      [
+        new AccessTokenError('Access token claims rejected', 'invalid_claims'),
+        'invalid_token',
+      ],
+    ])('reports %s as %s', async (error, reason) => {
+      const onError = vi.fn();
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { onError },
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockRejectedValue(
+        error,
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result).toEqual({ auth: { user: null }, reason, error });
+      expect(onError).toHaveBeenCalledWith({ reason, error });
+    });
+
+    it('wraps errors from outside AuthKit in an AuthKitError', async () => {
+      const cause = new Error('socket hang up');
+      vi.spyOn(service['core'], 'validateAndRefresh').mockRejectedValue(cause);
+
+      const result = await service.withAuth('request');
+
+      expect(result.reason).toBe('refresh_failed');
+      expect(result.error).toBeInstanceOf(AuthKitError);
+      expect(result.error?.cause).toBe(cause);
+    });
+
+    it('ignores errors thrown by onError', async () => {
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        {
+          onError: () => {
+            throw new Error('logger down');
+          },
+        },
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockRejectedValue(
+        new TokenRefreshError('Session revoked'),
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.reason).toBe('refresh_failed');
+    });
+
+    it('logs and ignores rejections from an async onError', async () => {
+      const logger = {
+        debug: vi.fn(),
+        info: vi.fn(),
+        warn: vi.fn(),
+        error: vi.fn(),
+      };
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        {
+          logger,
+          onError: async () => {
+            throw new Error('logger down');
+          },
+        },
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockRejectedValue(
+        new TokenRefreshError('Session revoked'),
+      );
+
+      const result = await testService.withAuth('request');
+      await new Promise(resolve => setTimeout(resolve, 0));
+
+      expect(result.reason).toBe('refresh_failed');
+      expect(logger.warn).toHaveBeenCalledWith('onError hook failed', {
+        error: expect.objectContaining({ message: 'logger down' }),
+      });
+    });
+
+    it('reports a timed-out session as session_expired', async () => {
+      const onError = vi.fn();
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { onError },
+      );
+      vi.spyOn(testService['core'], 'isSessionTimedOut').mockReturnValue(true);
+
+      const result = await testService.withAuth('request');
+
+      expect(result).toEqual({
+        auth: { user: null },
+        headers: { 'Set-Cookie': 'wos-session=; Path=/; Max-Age=0' },
+        reason: 'session_expired',
+      });
+      expect(onError).not.toHaveBeenCalled();
+    });
+
+    it('reports a failing session read as storage_failed', async () => {
+      const onError = vi.fn();
+      const testService = new AuthService(
+        mockConfig as any,
+        {
+          ...storage,
+          getSession: async () => {
+            throw new Error('store down');
+          },
+        } as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { onError },
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.reason).toBe('storage_failed');
+      expect(result.error?.cause).toEqual(new Error('store down'));
+      expect(onError).toHaveBeenCalledWith({
+        reason: 'storage_failed',
+        error: result.error,
+      });
+    });
+
+    it('reports a failing slim-session user load as user_load_failed', async () => {
+      const onError = vi.fn();
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { onError },
+      );
+      vi.spyOn(testService['core'], 'decryptSession').mockRejectedValue(
+        new Error('user API down'),
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.reason).toBe('user_load_failed');
+      expect(onError).toHaveBeenCalledWith({
+        reason: 'user_load_failed',
+        error: result.error,
+      });
+    });
+
+    it('reports a failing seal after a refresh as encrypt_failed', async () => {
+      const onError = vi.fn();
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        { onError },
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: true,
+          session,
+          claims: { sid: 'session_123' } as any,
+        }),
+      );
+      vi.spyOn(testService['core'], 'encryptSession').mockRejectedValue(
+        new Error('seal failed'),
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.reason).toBe('encrypt_failed');
+      expect(onError).toHaveBeenCalledWith({
+        reason: 'encrypt_failed',
+        error: result.error,
+      });
+    });
+
+    it('re-seals a session whose activity stamp is due', async () => {
+      const testService = new AuthService(
+        { ...mockConfig, sessionIdleTimeout: 600 } as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+      );
+      const lastActiveAt = Math.floor(Date.now() / 1000) - 300;
+      vi.spyOn(testService['core'], 'decryptSession').mockResolvedValue({
+        accessToken: 'test-access-token',
+        refreshToken: 'test-refresh-token',
+        user: mockUser,
+        lastActiveAt,
+      } as any);
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: false,
+          session,
+          claims: { sid: 'session_123' } as any,
+        }),
+      );
+      const encryptSession = vi.spyOn(testService['core'], 'encryptSession');
+
+      const result = await testService.withAuth('request');
+
+      expect(result.auth.user).toEqual(mockUser);
+      expect(result.refreshedSessionData).toBe('encrypted-session-data');
+      expect(encryptSession.mock.calls[0]![0].lastActiveAt).toBeGreaterThan(
+        lastActiveAt,
+      );
+    });
+
+    it('keeps the session when only a re-seal fails', async () => {
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+      );
+      vi.spyOn(testService['core'], 'isSealedWithOldPassword').mockReturnValue(
+        true,
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: false,
+          session,
+          claims: { sid: 'session_123' } as any,
+        }),
+      );
+      vi.spyOn(testService['core'], 'encryptSession').mockRejectedValue(
+        new Error('seal failed'),
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.auth.user).toEqual(mockUser);
+      expect(result.refreshedSessionData).toBeUndefined();
+      expect(result.reason).toBeUndefined();
+    });
+
+    it('exposes session metadata on the auth result', async () => {
+      const metadata = {
+        authenticationMethod: 'GoogleOAuth',
+        signedInAt: 1700000000,
+      };
+      const metadataEncryption = {
+        sealData: async () => 'encrypted-session-data',
+        unsealData: async () => ({
+          accessToken: 'test-access-token',
+          refreshToken: 'test-refresh-token',
+          user: mockUser,
+          metadata,
+        }),
+      };
+      const testService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        metadataEncryption as any,
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: false,
+          session,
+          claims: { sid: 'session_123' } as any,
+        }),
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.auth.user).not.toBeNull();
+      if (result.auth.user) {
+        expect(result.auth.source).toBe('cookie');
+        expect(result.auth.sessionMetadata).toEqual(metadata);
+      }
+    });
+
+    it('re-seals a session sealed with a rotated-out password', async () => {
+      const newPassword = 'a-newer-test-password-that-is-32-characters-long';
+      const makeRotatingService = (sealed: string) => {
+        const testService = new AuthService(
+          {
+            ...mockConfig,
+            cookiePasswords: [
+              { id: '2', password: newPassword },
+              { id: '1', password: mockConfig.cookiePassword },
+            ],
+          } as any,
+          makeStorage(sealed) as any,
+          makeClient() as any,
+          sessionEncryption,
+        );
+        vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+          async (session: any) => ({
+            valid: true,
+            refreshed: false,
+            session,
+            claims: { sid: 'session_123' } as any,
+          }),
+        );
+        return testService;
+      };
+      const oldSeal = await sessionEncryption.sealData(
+        { accessToken: 'at', refreshToken: 'rt', user: mockUser },
+        { password: mockConfig.cookiePassword },
+      );
+
+      const first = await makeRotatingService(oldSeal).withAuth('request');
+      expect(first.auth.user).toEqual(mockUser);
+      expect(sessionEncryption.getPasswordId(first.refreshedSessionData!)).toBe(
+        '2',
+      );
+
+      const second = await makeRotatingService(
+        first.refreshedSessionData!,
+      ).withAuth('request');
+      expect(second.auth.user).toEqual(mockUser);
+      expect(second.refreshedSessionData).toBeUndefined();
+    });
+
+    describe('bearer tokens', () => {
+      const bearerClaims = {
+        sid: 'session_bearer',
+        sub: 'user_123',
+        org_id: 'org_123',
+        permissions: ['posts:read'],
+      };
+
+      function makeBearerService(
+        config: Record<string, unknown>,
+        header: string | null = 'Bearer bearer-access-token',
+      ) {
+        const bearerStorage = {
+          ...makeStorage(null),
+          getAuthorizationHeader: async () => header,
+        };
+        const testService = new AuthService(
+          { ...mockConfig, ...config } as any,
+          bearerStorage as any,
+          makeClient() as any,
+          mockEncryptionSessionShape as any,
+        );
+        const verifySpy = vi
+          .spyOn(testService['core'], 'verifyBearerToken')
+          .mockResolvedValue({
+            claims: bearerClaims,
+            user: mockUser as any,
+          });
+        return { testService, verifySpy };
+      }
+
+      it('authenticates by the bearer token when enabled', async () => {
+        const { testService, verifySpy } = makeBearerService({
+          acceptBearerTokens: true,
+        });
+        const refreshSpy = vi.spyOn(testService['core'], 'validateAndRefresh');
+
+        const result = await testService.withAuth('request');
+
+        expect(verifySpy).toHaveBeenCalledWith('bearer-access-token');
+        expect(refreshSpy).not.toHaveBeenCalled();
+        expect(result.refreshedSessionData).toBeUndefined();
+        expect(result.headers).toBeUndefined();
+        expect(result.auth).toMatchObject({
+          source: 'bearer',
+          user: mockUser,
+          accessToken: 'bearer-access-token',
+          sessionId: 'session_bearer',
+          organizationId: 'org_123',
+          permissions: ['posts:read'],
+        });
+        expect(result.auth.user && result.auth.refreshToken).toBeUndefined();
+      });
+
+      it('ignores bearer tokens unless enabled', async () => {
+        const { testService, verifySpy } = makeBearerService({});
+
+        const result = await testService.withAuth('request');
+
+        expect(result.auth.user).toBeNull();
+        expect(verifySpy).not.toHaveBeenCalled();
+      });
+
+      it('returns null user for rejected tokens and other schemes', async () => {
+        const rejected = makeBearerService({ acceptBearerTokens: true });
+        rejected.verifySpy.mockRejectedValue(
+          new AccessTokenError('Bearer token rejected: expired', 'expired'),
+        );
+        const basic = makeBearerService(
+          { acceptBearerTokens: true },
+          'Basic dXNlcjpwYXNz',
+        );
+
+        const rejectedResult = await rejected.testService.withAuth('request');
+        const basicResult = await basic.testService.withAuth('request');
+
+        expect(rejectedResult.auth.user).toBeNull();
+        expect(rejectedResult.reason).toBe('invalid_token');
+        expect(basicResult.auth.user).toBeNull();
+        expect(basicResult.reason).toBe('invalid_token');
+        expect(basic.verifySpy).not.toHaveBeenCalled();
+      });
+
+      it('reports JWKS outages as verification_unavailable', async () => {
+        const { testService, verifySpy } = makeBearerService({
+          acceptBearerTokens: true,
+        });
+        verifySpy.mockRejectedValue(
+          new AccessTokenError(
+            'Bearer token rejected: jwks_unavailable',
+            'jwks_unavailable',
+          ),
+        );
+
+        const result = await testService.withAuth('request');
+
+        expect(result.reason).toBe('verification_unavailable');
+      });
+
+      it('prefers the session cookie over a bearer token', async () => {
+        const testService = new AuthService(
+          { ...mockConfig, acceptBearerTokens: true } as any,
+          {
+            ...storage,
+            getAuthorizationHeader: async () => 'Bearer bearer-access-token',
+          } as any,
+          makeClient() as any,
+          mockEncryptionSessionShape as any,
+        );
+        const verifySpy = vi.spyOn(testService['core'], 'verifyBearerToken');
+        vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+          async (session: any) => ({
+            valid: true,
+            refreshed: false,
+            session,
+            claims: { sid: 'session_123' } as any,
+          }),
+        );
+
+        const result = await testService.withAuth('request');
+
+        expect(result.auth.user && result.auth.source).toBe('cookie');
+        expect(verifySpy).not.toHaveBeenCalled();
+      });
+    });
+
+    it('signs out and clears sessions past the idle timeout', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const idleEncryption = {
+        sealData: async () => 'encrypted-session-data',
+        unsealData: async () => ({
+          accessToken: 'test-access-token',
+          refreshToken: 'test-refresh-token',
+          user: mockUser,
+          createdAt: now - 7200,
+          lastActiveAt: now - 3600,
+        }),
+      };
+      const clearSpy = vi.spyOn(storage, 'clearSession');
+      const testService = new AuthService(
+        { ...mockConfig, sessionIdleTimeout: 1800 } as any,
+        storage as any,
+        makeClient() as any,
+        idleEncryption as any,
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.auth.user).toBeNull();
+      expect(result.refreshedSessionData).toBeUndefined();
+      expect(result.headers).toEqual({
+        'Set-Cookie': 'wos-session=; Path=/; Max-Age=0',
+      });
+      expect(clearSpy).toHaveBeenCalledWith(undefined, { request: 'request' });
+    });
+
+    it('signs out sessions past the absolute lifetime', async () => {
+      const now = Math.floor(Date.now() / 1000);
+      const oldEncryption = {
+        sealData: async () => 'encrypted-session-data',
+        unsealData: async () => ({
+          accessToken: 'test-access-token',
+          refreshToken: 'test-refresh-token',
+          user: mockUser,
+          createdAt: now - 90000,
+          lastActiveAt: now,
+        }),
+      };
+      const testService = new AuthService(
+        { ...mockConfig, sessionMaxLifetime: 86400 } as any,
+        storage as any,
+        makeClient() as any,
+        oldEncryption as any,
+      );
+
+      const result = await testService.withAuth('request');
+
+      expect(result.auth.user).toBeNull();
+      expect(result.headers).toBeDefined();
     });
   });
 
@@ -211,6 +804,16 @@ describe('AuthService', () => {
 
       expect(result.response).toBe('cleared-response');
     });
+
+    it('forwards the request so server-side storages can delete the record', async () => {
+      const clearSpy = vi.spyOn(storage, 'clearSession');
+
+      await service.clearSession('response', { request: 'request' });
+
+      expect(clearSpy).toHaveBeenCalledWith('response', {
+        request: 'request',
+      });
+    });
   });
 
   describe('signOut()', () => {
@@ -221,6 +824,14 @@ describe('AuthService', () => {
       expect(result.headers).toBeDefined();
       expect(result.headers?.['Set-Cookie']).toContain('wos-session=');
     });
+
+    it('forwards the request to storage.clearSession', async () => {
+      const clearSpy = vi.spyOn(storage, 'clearSession');
+
+      await service.signOut('session_123', { request: 'request' });
+
+      expect(clearSpy).toHaveBeenCalledWith(undefined, { request: 'request' });
+    });
   });
 
   describe('createAuthorization()', () => {
@@ -431,6 +1042,23 @@ describe('AuthService', () => {
       expect(result.headers?.['Set-Cookie']).toContain(`${staleName}=`);
     });
 
+    it('counts the eviction', async () => {
+      const metrics = new InMemoryMetrics();
+      const countingService = new AuthService(
+        mockConfig as any,
+        realStorage as any,
+        makeClient() as any,
+        sessionEncryption,
+        { metrics },
+      );
+
+      await countingService.clearPendingVerifierByName(undefined, {
+        cookieName: 'wos-auth-verifier-deadbeef',
+      });
+
+      expect(metrics.getCounter(AuthMetric.verifierEvictions)).toBe(1);
+    });
+
     it('rejects non-PKCE cookie names', async () => {
       await expect(
         realService.clearPendingVerifierByName(undefined, {
@@ -491,6 +1119,87 @@ describe('AuthService', () => {
       expect(capture.authCall?.codeVerifier).toBe(testVerifier);
     });
 
+    it('counts successful sign-ins', async () => {
+      const metrics = new InMemoryMetrics();
+      const realStorage = makeStorage();
+      const realService = new AuthService(
+        mockConfig as any,
+        realStorage as any,
+        makeClient() as any,
+        sessionEncryption,
+        { metrics },
+      );
+
+      const { cookieName } = await realService.createAuthorization('res');
+      await realService.handleCallback('req', 'res', {
+        code: 'auth-code-xyz',
+        state: realStorage.cookies.get(cookieName)!,
+      });
+
+      expect(
+        metrics.getCounter(AuthMetric.signIns, { result: 'success' }),
+      ).toBe(1);
+    });
+
+    it('stamps createdAt and lastActiveAt on the new session', async () => {
+      const realStorage = makeStorage();
+      const saveSpy = vi.spyOn(realStorage, 'saveSession');
+      const realService = new AuthService(
+        mockConfig as any,
+        realStorage as any,
+        makeClient() as any,
+        sessionEncryption,
+      );
+      const before = Math.floor(Date.now() / 1000);
+
+      const { cookieName } = await realService.createAuthorization('res');
+      await realService.handleCallback('req', 'res', {
+        code: 'code',
+        state: realStorage.cookies.get(cookieName)!,
+      });
+
+      const sealed: string = (saveSpy.mock.calls[0] as any[])[1];
+      const session = await sessionEncryption.unsealData<any>(sealed, {
+        password: mockConfig.cookiePassword,
+      });
+      expect(session.createdAt).toBeGreaterThanOrEqual(before);
+      expect(session.lastActiveAt).toBe(session.createdAt);
+    });
+
+    it('records sign-in metadata from the code exchange', async () => {
+      const realStorage = makeStorage();
+      const saveSpy = vi.spyOn(realStorage, 'saveSession');
+      const client = makeClient();
+      const authenticateWithCode = client.userManagement.authenticateWithCode;
+      client.userManagement.authenticateWithCode = async (opts: any) => ({
+        ...(await authenticateWithCode(opts)),
+        authenticationMethod: 'SSO',
+        organizationId: 'org_signin',
+      });
+      const realService = new AuthService(
+        mockConfig as any,
+        realStorage as any,
+        client as any,
+        sessionEncryption,
+      );
+
+      const { cookieName } = await realService.createAuthorization('res');
+      await realService.handleCallback('req', 'res', {
+        code: 'code',
+        state: realStorage.cookies.get(cookieName)!,
+      });
+
+      const sealed: string = (saveSpy.mock.calls[0] as any[])[1];
+      const session = await sessionEncryption.unsealData<any>(sealed, {
+        password: mockConfig.cookiePassword,
+      });
+      expect(session.metadata).toEqual({
+        authenticationMethod: 'SSO',
+        signedInAt: session.createdAt,
+        organizationId: 'org_signin',
+      });
+    });
+
     it('returns both session and verifier-delete Set-Cookie as a string[]', async () => {
       const realStorage = makeStorage();
       const realService = new AuthService(
@@ -849,6 +1558,46 @@ describe('AuthService', () => {
       expect(realStorage.lastClearOptions.get(cookieName)?.path).toBe('/');
     });
 
+    it('raises SessionPayloadTooLargeError when the session exceeds every cookie chunk', async () => {
+      const cookies = new Map<string, string>();
+      class MapStorage extends CookieSessionStorage<string, string> {
+        async getCookie(_req: string, name: string) {
+          return cookies.get(name) ?? null;
+        }
+        override async setCookie(
+          res: string | undefined,
+          name: string,
+          value: string,
+          options: CookieOptions,
+        ) {
+          cookies.set(name, value);
+          return super.setCookie(res, name, value, options);
+        }
+      }
+      const client = makeClient();
+      const authenticate = client.userManagement.authenticateWithCode;
+      client.userManagement.authenticateWithCode = async (opts: any) => ({
+        ...(await authenticate(opts)),
+        user: { ...mockUser, metadata: { blob: 'x'.repeat(30_000) } } as any,
+      });
+      const realService = new AuthService(
+        mockConfig as any,
+        new MapStorage(mockConfig as any),
+        client as any,
+        sessionEncryption,
+      );
+
+      const { cookieName } = await realService.createAuthorization(undefined);
+      const sealedState = cookies.get(cookieName)!;
+
+      await expect(
+        realService.handleCallback('req', 'res', {
+          code: 'code',
+          state: sealedState,
+        }),
+      ).rejects.toBeInstanceOf(SessionPayloadTooLargeError);
+    });
+
     it('swallows clearCookie errors so the original failure propagates', async () => {
       const realStorage = makeStorage();
       const throwingClient = makeClient();
@@ -964,4 +1713,188 @@ describe('AuthService', () => {
       });
     });
   });
+
+  describe('lifecycle hooks', () => {
+    function makeHookedService(hooks: Record<string, unknown>) {
+      return new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        mockEncryptionSessionShape as any,
+        hooks,
+      );
+    }
+
+    it('fires onSignIn after handleCallback saved the session', async () => {
+      const onSignIn = vi.fn();
+      const realService = new AuthService(
+        mockConfig as any,
+        storage as any,
+        makeClient() as any,
+        sessionEncryption,
+        { onSignIn },
+      );
+
+      const { cookieName } = await realService.createAuthorization('res');
+      const result = await realService.handleCallback('req', 'res', {
+        code: 'code',
+        state: storage.cookies.get(cookieName)!,
+      });
+
+      expect(onSignIn).toHaveBeenCalledWith({
+        authResponse: result.authResponse,
+        session: expect.objectContaining({ accessToken: 'access-code' }),
+      });
+    });
+
+    it('fires onSessionRefreshed when withAuth refreshes', async () => {
+      const onSessionRefreshed = vi.fn();
+      const testService = makeHookedService({ onSessionRefreshed });
+      const previousClaims = { sid: 'session_old' };
+      const claims = { sid: 'session_new' };
+      vi.spyOn(testService['core'], 'parseTokenClaims').mockReturnValue(
+        previousClaims as any,
+      );
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: true,
+          session: { ...session, accessToken: 'new-access-token' },
+          claims: claims as any,
+        }),
+      );
+
+      await testService.withAuth('request');
+
+      expect(onSessionRefreshed).toHaveBeenCalledWith({
+        user: mockUser,
+        previousClaims,
+        claims,
+      });
+    });
+
+    it('fires onRefreshFailed when withAuth cannot refresh', async () => {
+      const onRefreshFailed = vi.fn();
+      const testService = makeHookedService({ onRefreshFailed });
+      const error = new TokenRefreshError('Session revoked');
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockRejectedValue(
+        error,
+      );
+
+      await testService.withAuth('request');
+
+      expect(onRefreshFailed).toHaveBeenCalledWith({ user: mockUser, error });
+    });
+
+    it('fires onRefreshFailed and rethrows when refreshSession fails', async () => {
+      const onRefreshFailed = vi.fn();
+      const testService = makeHookedService({ onRefreshFailed });
+      const error = new TokenRefreshError('Session revoked');
+      vi.spyOn(testService['operations'], 'refreshSession').mockRejectedValue(
+        error,
+      );
+
+      await expect(
+        testService.refreshSession({ user: mockUser } as any),
+      ).rejects.toBe(error);
+      expect(onRefreshFailed).toHaveBeenCalledWith({ user: mockUser, error });
+    });
+
+    it('does not fire onRefreshFailed when sealing the refreshed session fails', async () => {
+      const onRefreshFailed = vi.fn();
+      const testService = makeHookedService({ onRefreshFailed });
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockImplementation(
+        async (session: any) => ({
+          valid: true,
+          refreshed: true,
+          session,
+          claims: { sid: 'session_123' } as any,
+        }),
+      );
+      vi.spyOn(testService['core'], 'encryptSession').mockRejectedValue(
+        new SessionEncryptionError('Failed to encrypt session'),
+      );
+
+      await testService.withAuth('request');
+      await expect(
+        testService.refreshSession({ user: mockUser } as any),
+      ).rejects.toBeInstanceOf(SessionEncryptionError);
+
+      expect(onRefreshFailed).not.toHaveBeenCalled();
+    });
+
+    it('does not fire onRefreshFailed when the access token is rejected', async () => {
+      const onRefreshFailed = vi.fn();
+      const testService = makeHookedService({ onRefreshFailed });
+      vi.spyOn(testService['core'], 'validateAndRefresh').mockRejectedValue(
+        new AccessTokenError('Access token claims rejected', 'invalid_claims'),
+      );
+
+      await testService.withAuth('request');
+
+      expect(onRefreshFailed).not.toHaveBeenCalled();
+    });
+
+    it('fires onOrganizationSwitched and onSessionRefreshed on switchOrganization', async () => {
+      const onOrganizationSwitched = vi.fn();
+      const onSessionRefreshed = vi.fn();
+      const testService = makeHookedService({
+        onOrganizationSwitched,
+        onSessionRefreshed,
+      });
+      const claims = { sid: 'session_1', org_id: 'org_new' };
+      vi.spyOn(testService['core'], 'parseTokenClaims').mockReturnValue({
+        sid: 'session_1',
+        org_id: 'org_old',
+      } as any);
+      vi.spyOn(testService['operations'], 'refreshSession').mockResolvedValue({
+        auth: { source: 'cookie', user: mockUser, claims } as any,
+        encryptedSession: 'encrypted',
+      });
+
+      await testService.switchOrganization(
+        { accessToken: 'access-token', user: mockUser } as any,
+        'org_new',
+      );
+
+      expect(onOrganizationSwitched).toHaveBeenCalledWith({
+        user: mockUser,
+        previousOrganizationId: 'org_old',
+        organizationId: 'org_new',
+        claims,
+      });
+      expect(onSessionRefreshed).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires onSignOut and survives a failing hook', async () => {
+      const onSignOut = vi.fn(async () => {
+        throw new Error('audit log down');
+      });
+      const testService = makeHookedService({ onSignOut });
+
+      const result = await testService.signOut('session_123');
+
+      expect(onSignOut).toHaveBeenCalledWith({ sessionId: 'session_123' });
+      expect(result.logoutUrl).toContain('session_123');
+    });
+
+    it('does not wait for hooks in background mode', async () => {
+      let release!: () => void;
+      const onSignOut = vi.fn(
+        () =>
+          new Promise<void>(resolve => {
+            release = resolve;
+          }),
+      );
+      const testService = makeHookedService({
+        onSignOut,
+        hookExecution: 'background',
+      });
+
+      await testService.signOut('session_123');
+
+      expect(onSignOut).toHaveBeenCalled();
+      release();
+    });
+  });
 });
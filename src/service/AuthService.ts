@@ -1,12 +1,29 @@
 import type { WorkOS } from '@workos-inc/node';
-import { AuthKitCore } from '../core/AuthKitCore.js';
+import { AuthKitCore, type AuthKitCoreOptions } from '../core/AuthKitCore.js';
 import type { AuthKitConfig } from '../core/config/types.js';
 import { getPKCECookieNameForState } from '../core/pkce/cookieName.js';
 import { getPKCECookieOptions } from '../core/pkce/cookieOptions.js';
 import { isPKCEVerifierCookieName } from '../core/pkce/eviction.js';
+import {
+  AccessTokenError,
+  AuthKitError,
+  SessionEncryptionError,
+  TokenRefreshError,
+  TokenValidationError,
+} from '../core/errors.js';
+import { createRedactingLogger, type Logger } from '../core/logger.js';
+import {
+  AuthMetric,
+  createSafeMetrics,
+  type MetricsSink,
+} from '../core/metrics/metrics.js';
+import { noopTracer, traced, type Tracer } from '../core/tracer.js';
+import { parseBearerToken } from '../core/session/createAccessTokenVerifier.js';
 import { AuthOperations } from '../operations/AuthOperations.js';
 import type {
+  AuthenticatedFields,
   AuthResult,
+  BaseTokenClaims,
   CreateAuthorizationResult,
   CustomClaims,
   GetAuthorizationUrlOptions,
@@ -14,8 +31,15 @@ import type {
   Session,
   SessionEncryption,
   SessionStorage,
+  WithAuthFailure,
+  WithAuthResult,
 } from '../core/session/types.js';
 import { sanitizeReturnPathname } from '../utils.js';
+import {
+  type AuthLifecycleHooks,
+  type HookExecution,
+  runHook,
+} from './hooks.js';
 
 /**
  * Merge two `HeadersBag` values. `Set-Cookie` matching is case-insensitive;
@@ -50,6 +74,50 @@ function mergeHeaderBags(
   return merged;
 }
 
+/**
+ * Options for `AuthService`: the `AuthKitCore` collaborators plus service
+ * hooks.
+ */
+export interface AuthServiceOptions
+  extends AuthKitCoreOptions, AuthLifecycleHooks {
+  /**
+   * Called when `withAuth` signs a request out because of an error (not for
+   * requests that simply carry no session). Use it to log why users are
+   * being signed out. It isn't awaited; exceptions it throws and promises it
+   * rejects are logged and ignored.
+   */
+  onError?: (failure: WithAuthFailure) => void | Promise<void>;
+  /**
+   * Whether operations wait for async lifecycle hooks (`await`) or start
+   * them and continue (`background`). Defaults to `await`.
+   */
+  hookExecution?: HookExecution;
+}
+
+function toAuthKitError(error: unknown, message: string): AuthKitError {
+  return error instanceof AuthKitError
+    ? error
+    : new AuthKitError(message, error);
+}
+
+/**
+ * The claim-derived fields of an authenticated `AuthResult`.
+ */
+function authFieldsFromClaims<TCustomClaims>(
+  claims: BaseTokenClaims & TCustomClaims,
+): Omit<AuthenticatedFields<TCustomClaims>, 'user' | 'accessToken'> {
+  return {
+    claims,
+    sessionId: claims.sid,
+    organizationId: claims.org_id,
+    role: claims.role,
+    roles: claims.roles,
+    permissions: claims.permissions,
+    entitlements: claims.entitlements,
+    featureFlags: claims.feature_flags,
+  };
+}
+
 /**
  * Framework-agnostic authentication service.
  *
@@ -71,17 +139,30 @@ export class AuthService<TRequest, TResponse> {
   private readonly storage: SessionStorage<TRequest, TResponse>;
   private readonly config: AuthKitConfig;
   private readonly client: WorkOS;
+  private readonly onError: AuthServiceOptions['onError'];
+  private readonly hooks: AuthLifecycleHooks;
+  private readonly hookExecution: HookExecution;
+  private readonly logger: Logger;
+  private readonly tracer: Tracer;
+  private readonly metrics: MetricsSink;
 
   constructor(
     config: AuthKitConfig,
     storage: SessionStorage<TRequest, TResponse>,
     client: WorkOS,
     encryption: SessionEncryption,
+    options: AuthServiceOptions = {},
   ) {
     this.config = config;
     this.storage = storage;
     this.client = client;
-    this.core = new AuthKitCore(config, client, encryption);
+    this.onError = options.onError;
+    this.hooks = options;
+    this.hookExecution = options.hookExecution ?? 'await';
+    this.logger = createRedactingLogger(options.logger);
+    this.tracer = options.tracer ?? noopTracer;
+    this.metrics = createSafeMetrics(options.metrics);
+    this.core = new AuthKitCore(config, client, encryption, options);
     this.operations = new AuthOperations(this.core, client, config, encryption);
   }
 
@@ -90,52 +171,252 @@ export class AuthService<TRequest, TResponse> {
    *
    * This method:
    * 1. Reads encrypted session from request (via storage)
-   * 2. Validates and potentially refreshes the session (via core)
-   * 3. Returns auth result + optionally refreshed session data
+   * 2. Signs out sessions past `sessionIdleTimeout` or `sessionMaxLifetime`
+   * 3. Validates and potentially refreshes the session (via core)
+   * 4. Returns auth result + optionally refreshed session data
+   *
+   * When a session has timed out, the result carries `headers` that clear
+   * the session cookie; apply them to the response like a refreshed session.
+   *
+   * Sessions sealed with a rotated-out cookie password (see
+   * `cookiePasswords`) are re-sealed with the current one and returned as
+   * `refreshedSessionData`, like a refreshed session. So are sessions whose
+   * `lastActiveAt` is due a new stamp under `sessionIdleTimeout`.
+   *
+   * With `acceptBearerTokens`, a request without a session cookie is
+   * authenticated by its `Authorization: Bearer` access token instead
+   * (`auth.source === 'bearer'`). Bearer requests are never refreshed and
+   * never get cookies.
+   *
+   * Signed-out results say why in `reason`; failures also carry the
+   * underlying `error` and are passed to the `onError` option.
    *
    * @param request - Framework-specific request object
-   * @returns Auth result and optional refreshed session data
+   * @returns Auth result, optional refreshed session data, optional
+   *   session-clearing headers, and the failure reason when signed out
    */
   async withAuth<TCustomClaims = CustomClaims>(
     request: TRequest,
-  ): Promise<{
-    auth: AuthResult<TCustomClaims>;
-    refreshedSessionData?: string;
-  }> {
+  ): Promise<WithAuthResult<TCustomClaims>> {
+    return traced(this.tracer, 'authkit.withAuth', async span => {
+      const result = await this.resolveAuth<TCustomClaims>(request);
+      span.setAttribute('authenticated', result.auth.user !== null);
+      span.setAttribute('refreshed', result.refreshedSessionData !== undefined);
+      if (result.auth.user) {
+        span.setAttribute('source', result.auth.source ?? 'cookie');
+        if (result.auth.organizationId) {
+          span.setAttribute('org_id', result.auth.organizationId);
+        }
+      }
+      if (result.reason) {
+        span.setAttribute('reason', result.reason);
+      }
+      return result;
+    });
+  }
+
+  /** `withAuth` without its span. */
+  private async resolveAuth<TCustomClaims>(
+    request: TRequest,
+  ): Promise<WithAuthResult<TCustomClaims>> {
+    let encryptedSession: string | null;
+    try {
+      encryptedSession = await this.storage.getSession(request);
+    } catch (error) {
+      return this.authFailure('storage_failed', error);
+    }
+    if (!encryptedSession) {
+      return this.authenticateBearer<TCustomClaims>(request);
+    }
+
+    let decrypted: Session;
     try {
-      const encryptedSession = await this.storage.getSession(request);
-      if (!encryptedSession) {
-        return { auth: { user: null } };
+      decrypted = await this.core.decryptSession(encryptedSession);
+    } catch (error) {
+      // Anything but a SessionEncryptionError comes from the slim-session
+      // `UserLoader`.
+      return this.authFailure(
+        error instanceof SessionEncryptionError
+          ? 'decrypt_failed'
+          : 'user_load_failed',
+        error,
+      );
+    }
+    const staleSeal = this.core.isSealedWithOldPassword(encryptedSession);
+
+    if (this.core.isSessionTimedOut(decrypted)) {
+      this.logger.info('Session timed out; signing out', {
+        userId: decrypted.user.id,
+      });
+      try {
+        const { headers } = await this.storage.clearSession(undefined, {
+          request,
+        });
+        return { auth: { user: null }, headers, reason: 'session_expired' };
+      } catch (error) {
+        return this.authFailure('storage_failed', error);
       }
+    }
 
-      const { claims, session, refreshed } =
-        await this.core.validateAndRefresh<TCustomClaims>(
-          await this.core.decryptSession(encryptedSession),
-        );
+    let validated: {
+      refreshed: boolean;
+      session: Session;
+      claims: BaseTokenClaims & TCustomClaims;
+    };
+    try {
+      validated = await this.core.validateAndRefresh<TCustomClaims>(decrypted);
+    } catch (error) {
+      const failure = this.authFailure(
+        error instanceof TokenValidationError
+          ? 'verification_unavailable'
+          : error instanceof AccessTokenError
+            ? 'invalid_token'
+            : 'refresh_failed',
+        error,
+      );
+      if (error instanceof TokenRefreshError) {
+        await this.emit('onRefreshFailed', {
+          user: decrypted.user,
+          error: failure.error,
+        });
+      }
+      return failure;
+    }
 
-      const auth: AuthResult<TCustomClaims> = {
-        refreshToken: session.refreshToken,
+    const { claims, refreshed } = validated;
+    const touched = refreshed
+      ? null
+      : this.core.touchSession(validated.session);
+    const session = touched ?? validated.session;
+    if (refreshed) {
+      await this.emit('onSessionRefreshed', {
         user: session.user,
+        previousClaims: this.tryParseClaims(decrypted.accessToken),
         claims,
-        impersonator: session.impersonator,
-        accessToken: session.accessToken,
-        sessionId: claims.sid,
-        organizationId: claims.org_id,
-        role: claims.role,
-        roles: claims.roles,
-        permissions: claims.permissions,
-        entitlements: claims.entitlements,
-        featureFlags: claims.feature_flags,
-      };
+      });
+    }
+
+    const auth: AuthResult<TCustomClaims> = {
+      ...authFieldsFromClaims(claims),
+      source: 'cookie',
+      refreshToken: session.refreshToken,
+      user: session.user,
+      impersonator: session.impersonator,
+      accessToken: session.accessToken,
+      sessionMetadata: session.metadata,
+    };
+
+    if (!refreshed && !staleSeal && !touched) return { auth };
 
-      if (refreshed) {
-        const refreshedSessionData = await this.core.encryptSession(session);
-        return { auth, refreshedSessionData };
+    if (!refreshed) {
+      this.logger.debug(
+        staleSeal
+          ? 'Re-sealing session with the current password'
+          : 'Re-sealing session to record activity',
+        { userId: session.user.id },
+      );
+    }
+    try {
+      const refreshedSessionData = await this.core.encryptSession(session);
+      return { auth, refreshedSessionData };
+    } catch (error) {
+      // The old cookie still works when only a re-seal was due; after a
+      // refresh its refresh token is spent.
+      if (!refreshed) {
+        this.logger.warn('Re-sealing session failed', { error });
+        return { auth };
       }
+      return this.authFailure('encrypt_failed', error);
+    }
+  }
+
+  /**
+   * Build the signed-out result for a failed `withAuth` and report it to
+   * `onError`. Errors from outside AuthKit are wrapped in an `AuthKitError`.
+   */
+  private authFailure(
+    reason: WithAuthFailure['reason'],
+    error: unknown,
+  ): WithAuthResult<never> & WithAuthFailure {
+    const failure: WithAuthFailure = {
+      reason,
+      error: toAuthKitError(error, `withAuth failed: ${reason}`),
+    };
+    this.logger.info('Request signed out', { reason, error: failure.error });
+    // A failing error hook must not turn a signed-out result into a throw.
+    void runHook(this.onError, failure, 'background', hookError =>
+      this.logger.warn('onError hook failed', { error: hookError }),
+    );
+    return { auth: { user: null }, ...failure };
+  }
+
+  /**
+   * Fire a lifecycle hook per `hookExecution`. Never throws.
+   */
+  private emit<K extends keyof AuthLifecycleHooks>(
+    name: K,
+    event: Parameters<NonNullable<AuthLifecycleHooks[K]>>[0],
+  ): Promise<void> {
+    return runHook(
+      this.hooks[name] as
+        | ((event: Parameters<NonNullable<AuthLifecycleHooks[K]>>[0]) => void)
+        | undefined,
+      event,
+      this.hookExecution,
+      error => this.logger.warn('Lifecycle hook failed', { hook: name, error }),
+    );
+  }
 
-      return { auth };
+  private tryParseClaims(accessToken: string): BaseTokenClaims | null {
+    try {
+      return this.core.parseTokenClaims(accessToken);
     } catch {
-      return { auth: { user: null } };
+      return null;
+    }
+  }
+
+  /**
+   * Authenticate a request by its bearer access token, when enabled and the
+   * storage can read the `Authorization` header.
+   */
+  private async authenticateBearer<TCustomClaims>(
+    request: TRequest,
+  ): Promise<WithAuthResult<TCustomClaims>> {
+    if (
+      !this.config.acceptBearerTokens ||
+      !this.storage.getAuthorizationHeader
+    ) {
+      this.logger.debug('No session cookie on request');
+      return { auth: { user: null }, reason: 'no_session' };
+    }
+
+    try {
+      const accessToken = parseBearerToken(
+        await this.storage.getAuthorizationHeader(request),
+      );
+      if (!accessToken) {
+        this.logger.debug('No session cookie or bearer token on request');
+        return { auth: { user: null }, reason: 'no_session' };
+      }
+
+      const { claims, user } =
+        await this.core.verifyBearerToken<TCustomClaims>(accessToken);
+      this.logger.debug('Authenticated by bearer token', { userId: user.id });
+      return {
+        auth: {
+          ...authFieldsFromClaims(claims),
+          source: 'bearer',
+          user,
+          accessToken,
+        },
+      };
+    } catch (error) {
+      return this.authFailure(
+        error instanceof AccessTokenError && error.reason === 'jwks_unavailable'
+          ? 'verification_unavailable'
+          : 'invalid_token',
+        error,
+      );
     }
   }
 
@@ -158,25 +439,32 @@ export class AuthService<TRequest, TResponse> {
    *
    * @param response - Framework-specific response object (may be undefined)
    * @param sessionData - Encrypted session string
+   * @param options - Optional incoming request. Server-side storages use it
+   *   to update the session record being replaced in place; cookie storages
+   *   use it to expire only the leftover chunk cookies it sent.
    * @returns Updated response and/or headers
    */
   async saveSession(
     response: TResponse | undefined,
     sessionData: string,
+    options?: { request?: TRequest },
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
-    return this.storage.saveSession(response, sessionData);
+    return this.storage.saveSession(response, sessionData, options);
   }
 
   /**
    * Clear a session from storage.
    *
    * @param response - Framework-specific response object
+   * @param options - Optional incoming request. Server-side storages use it
+   *   to delete the session record; cookie storages ignore it.
    * @returns Updated response and/or headers
    */
   async clearSession(
     response: TResponse,
+    options?: { request?: TRequest },
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
-    return this.storage.clearSession(response);
+    return this.storage.clearSession(response, options);
   }
 
   /**
@@ -186,34 +474,65 @@ export class AuthService<TRequest, TResponse> {
    * Returns the URL plus whatever the storage returns (headers and/or response).
    *
    * @param sessionId - The session ID to terminate
-   * @param options - Optional return URL
+   * @param options - Optional return URL, and the incoming request so
+   *   server-side storages can delete the session record
    * @returns Logout URL and storage clear result (headers and/or response)
    */
   async signOut(
     sessionId: string,
-    options?: { returnTo?: string },
+    options?: { returnTo?: string; request?: TRequest },
   ): Promise<{
     logoutUrl: string;
     response?: TResponse;
     headers?: HeadersBag;
   }> {
     const logoutUrl = this.operations.getLogoutUrl(sessionId, options);
-    const clearResult = await this.storage.clearSession(undefined);
+    const clearResult = await this.storage.clearSession(
+      undefined,
+      options?.request ? { request: options.request } : undefined,
+    );
+    await this.emit('onSignOut', { sessionId });
     return { logoutUrl, ...clearResult };
   }
 
   /**
-   * Switch organization - delegates to AuthOperations.
+   * Switch organization - refreshes into the organization via
+   * `refreshSession`, then fires `onOrganizationSwitched`.
    */
   async switchOrganization(session: Session, organizationId: string) {
-    return this.operations.switchOrganization(session, organizationId);
+    const previousOrganizationId = this.tryParseClaims(
+      session.accessToken,
+    )?.org_id;
+    const result = await this.refreshSession(session, organizationId);
+    await this.emit('onOrganizationSwitched', {
+      user: result.auth.user,
+      previousOrganizationId,
+      organizationId,
+      claims: result.auth.claims,
+    });
+    return result;
   }
 
   /**
-   * Refresh session - delegates to AuthOperations.
+   * Refresh session - delegates to AuthOperations and fires
+   * `onSessionRefreshed` or `onRefreshFailed`.
    */
   async refreshSession(session: Session, organizationId?: string) {
-    return this.operations.refreshSession(session, organizationId);
+    let result: Awaited<ReturnType<AuthOperations['refreshSession']>>;
+    try {
+      result = await this.operations.refreshSession(session, organizationId);
+    } catch (error) {
+      if (error instanceof TokenRefreshError) {
+        await this.emit('onRefreshFailed', { user: session.user, error });
+      }
+      throw error;
+    }
+    await this.emit('onSessionRefreshed', {
+      user: result.auth.user,
+      previousClaims: this.tryParseClaims(session.accessToken),
+      claims: result.auth.claims,
+    });
+    return result;
   }
 
   /**
@@ -284,10 +603,11 @@ export class AuthService<TRequest, TResponse> {
     response: TResponse | undefined,
     options: { state: string; redirectUri?: string },
   ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
-    return this.clearPendingVerifierByName(response, {
-      cookieName: getPKCECookieNameForState(options.state),
-      redirectUri: options.redirectUri,
-    });
+    return this.clearVerifierCookie(
+      response,
+      getPKCECookieNameForState(options.state, this.config.cookiePrefix),
+      options.redirectUri,
+    );
   }
 
   /**
@@ -315,10 +635,24 @@ export class AuthService<TRequest, TResponse> {
         `Refusing to clear non-PKCE cookie "${options.cookieName}"`,
       );
     }
-    return this.storage.clearCookie(
+    this.metrics.increment(AuthMetric.verifierEvictions);
+    return this.clearVerifierCookie(
       response,
       options.cookieName,
-      getPKCECookieOptions(this.config, options.redirectUri),
+      options.redirectUri,
+    );
+  }
+
+  private clearVerifierCookie(
+    response: TResponse | undefined,
+    cookieName: string,
+    redirectUri: string | undefined,
+  ): Promise<{ response?: TResponse; headers?: HeadersBag }> {
+    this.logger.debug('Clearing PKCE verifier cookie', { cookieName });
+    return this.storage.clearCookie(
+      response,
+      cookieName,
+      getPKCECookieOptions(this.config, redirectUri),
     );
   }
 
@@ -356,7 +690,7 @@ export class AuthService<TRequest, TResponse> {
     },
   ) {
     const cookieName = options.state
-      ? getPKCECookieNameForState(options.state)
+      ? getPKCECookieNameForState(options.state, this.config.cookiePrefix)
       : null;
     const cookieValue = cookieName
       ? await this.storage.getCookie(request, cookieName)
@@ -386,18 +720,35 @@ export class AuthService<TRequest, TResponse> {
     const clearOptions = getPKCECookieOptions(this.config, redirectUri);
 
     try {
-      const authResponse =
-        await this.client.userManagement.authenticateWithCode({
-          code: options.code,
-          clientId: this.config.clientId,
-          codeVerifier,
-        });
+      const authResponse = await traced(
+        this.tracer,
+        'authkit.authenticateWithCode',
+        async span => {
+          const result = await this.client.userManagement.authenticateWithCode({
+            code: options.code,
+            clientId: this.config.clientId,
+            codeVerifier,
+          });
+          if (result.organizationId) {
+            span.setAttribute('org_id', result.organizationId);
+          }
+          return result;
+        },
+      );
 
+      const signedInAt = Math.floor(Date.now() / 1000);
       const session: Session = {
         accessToken: authResponse.accessToken,
         refreshToken: authResponse.refreshToken,
         user: authResponse.user,
         impersonator: authResponse.impersonator,
+        createdAt: signedInAt,
+        lastActiveAt: signedInAt,
+        metadata: {
+          authenticationMethod: authResponse.authenticationMethod,
+          signedInAt,
+          organizationId: authResponse.organizationId,
+        },
       };
 
       const encryptedSession = await this.core.encryptSession(session);
@@ -410,8 +761,14 @@ export class AuthService<TRequest, TResponse> {
           cookieName,
           clearOptions,
         );
+        this.logger.debug('Cleared PKCE verifier cookie after sign-in', {
+          cookieName,
+        });
       }
 
+      this.metrics.increment(AuthMetric.signIns, { result: 'success' });
+      await this.emit('onSignIn', { authResponse, session });
+
       return {
         response: clear.response ?? save.response,
         headers: mergeHeaderBags(save.headers, clear.headers),
@@ -420,6 +777,7 @@ export class AuthService<TRequest, TResponse> {
         authResponse,
       };
     } catch (err) {
+      this.metrics.increment(AuthMetric.signIns, { result: 'failure' });
       await this.bestEffortClearVerifier(response, cookieName, redirectUri);
       throw err;
     }
@@ -446,13 +804,26 @@ export class AuthService<TRequest, TResponse> {
   ): Promise<void> {
     if (!cookieName) return; // nothing to clear — no state on the URL.
     const options = getPKCECookieOptions(this.config, redirectUri);
-    if (schemeAgnostic && options.sameSite === 'lax') {
+    // Prefixed cookies are only accepted with `Secure`, so the scheme-agnostic
+    // delete can't drop it for them.
+    if (
+      schemeAgnostic &&
+      options.sameSite === 'lax' &&
+      !this.config.cookiePrefix
+    ) {
       options.secure = false;
     }
     try {
       await this.storage.clearCookie(response, cookieName, options);
-    } catch {
+      this.logger.debug('Cleared PKCE verifier cookie after failed callback', {
+        cookieName,
+      });
+    } catch (error) {
       // Swallow: cleanup is opportunistic; callers get the original error.
+      this.logger.debug('Could not clear PKCE verifier cookie', {
+        cookieName,
+        error,
+      });
     }
   }
 }
@@ -80,6 +80,41 @@ describe('createAuthService', () => {
       // Factory accepts the custom encryption - verify by checking the interface exists
       expect(typeof service.withAuth).toBe('function');
     });
+
+    it('loads slim-session users through the custom user loader', async () => {
+      const customClient = {
+        userManagement: {
+          getJwksUrl: () => 'https://custom.example.com/jwks',
+        },
+      };
+      const userLoaderFactory = vi.fn((_config: any, _client: any) => ({
+        getUser: async (id: string) => ({ id, email: 'slim@example.com' }),
+      }));
+
+      const service = createAuthService({
+        sessionStorageFactory: () =>
+          ({ ...mockStorage, getSession: async () => 'sealed' }) as any,
+        clientFactory: () => customClient as any,
+        encryptionFactory: () =>
+          ({
+            sealData: async () => 'sealed',
+            unsealData: async () => ({
+              accessToken: 'at',
+              refreshToken: 'rt',
+              userId: 'user_slim',
+            }),
+          }) as any,
+        userLoaderFactory: userLoaderFactory as any,
+      });
+
+      const session = await service.getSession('request');
+
+      expect(session?.user).toEqual({
+        id: 'user_slim',
+        email: 'slim@example.com',
+      });
+      expect(userLoaderFactory.mock.calls[0]![1]).toBe(customClient);
+    });
   });
 
   describe('lazy initialization', () => {
@@ -6,9 +6,38 @@ import { getWorkOS } from '../core/client/workos.js';
 import sessionEncryption from '../core/encryption/ironWebcryptoEncryption.js';
 import type {
   SessionEncryption,
+  RefreshCoordinator,
+  RefreshResultCache,
   SessionStorage,
+  UserLoader,
 } from '../core/session/types.js';
-import { AuthService } from './AuthService.js';
+import type { JwksLoader } from '../core/session/jwksKeySet.js';
+import { AuthService, type AuthServiceOptions } from './AuthService.js';
+import type { AuthLifecycleHooks } from './hooks.js';
+
+/**
+ * Options for `createAuthService`: factories for the service's collaborators,
+ * plus `logger`, `tracer`, `metrics`, `onError`, the lifecycle hooks and `hookExecution`.
+ */
+export interface AuthServiceFactoryOptions<TRequest, TResponse> extends Pick<
+  AuthServiceOptions,
+  | 'logger'
+  | 'tracer'
+  | 'metrics'
+  | 'onError'
+  | 'hookExecution'
+  | keyof AuthLifecycleHooks
+> {
+  sessionStorageFactory: (
+    config: AuthKitConfig,
+  ) => SessionStorage<TRequest, TResponse>;
+  clientFactory?: (config: AuthKitConfig) => WorkOS;
+  encryptionFactory?: (config: AuthKitConfig) => SessionEncryption;
+  userLoaderFactory?: (config: AuthKitConfig, client: WorkOS) => UserLoader;
+  refreshCoordinatorFactory?: (config: AuthKitConfig) => RefreshCoordinator;
+  refreshResultCacheFactory?: (config: AuthKitConfig) => RefreshResultCache;
+  jwksLoaderFactory?: (config: AuthKitConfig) => JwksLoader;
+}
 
 /**
  * Creates an AuthService instance with lazy initialization support.
@@ -20,7 +49,30 @@ import { AuthService } from './AuthService.js';
  * @param options - Configuration options
  * @param options.sessionStorageFactory - Factory function to create storage adapter
  * @param options.clientFactory - Optional factory for WorkOS client (defaults to getWorkOS)
- * @param options.encryptionFactory - Optional factory for encryption (defaults to iron-webcrypto)
+ * @param options.encryptionFactory - Optional factory for encryption (defaults to
+ *   iron-webcrypto; `() => jweEncryption` for AES-GCM JWE)
+ * @param options.userLoaderFactory - Optional factory for the slim-session user
+ *   loader (defaults to a cached `userManagement.getUser`)
+ * @param options.refreshCoordinatorFactory - Optional factory for a
+ *   cross-instance refresh coordinator (defaults to in-process dedupe only)
+ * @param options.refreshResultCacheFactory - Optional factory for the
+ *   refresh grace-window cache, used when `refreshGraceTtl` is set
+ *   (defaults to in-process memory)
+ * @param options.jwksLoaderFactory - Optional factory for a JWKS snapshot
+ *   loader tried before the remote key set (defaults to remote only)
+ * @param options.logger - Optional structured logger for auth decisions
+ *   (tokens and secrets are redacted)
+ * @param options.tracer - Optional OpenTelemetry-compatible tracer for
+ *   auth spans
+ * @param options.metrics - Optional metrics sink for auth counters and
+ *   refresh latency
+ * @param options.onError - Optional callback for `withAuth` failures, e.g.
+ *   to log why users are signed out
+ * @param options.onSignIn - Optional lifecycle hooks (also
+ *   `onSessionRefreshed`, `onRefreshFailed`, `onSignOut`,
+ *   `onOrganizationSwitched`)
+ * @param options.hookExecution - Whether to await hooks or run them in the
+ *   background (defaults to `await`)
  * @returns AuthService instance with lazy initialization
  *
  * @example
@@ -37,17 +89,18 @@ import { AuthService } from './AuthService.js';
  * await authService.withAuth(request);
  * ```
  */
-export function createAuthService<TRequest, TResponse>(options: {
-  sessionStorageFactory: (
-    config: AuthKitConfig,
-  ) => SessionStorage<TRequest, TResponse>;
-  clientFactory?: (config: AuthKitConfig) => WorkOS;
-  encryptionFactory?: (config: AuthKitConfig) => SessionEncryption;
-}): AuthService<TRequest, TResponse> {
+export function createAuthService<TRequest, TResponse>(
+  options: AuthServiceFactoryOptions<TRequest, TResponse>,
+): AuthService<TRequest, TResponse> {
   const {
     sessionStorageFactory,
     clientFactory = () => getWorkOS(),
     encryptionFactory = () => sessionEncryption,
+    userLoaderFactory,
+    refreshCoordinatorFactory,
+    refreshResultCacheFactory,
+    jwksLoaderFactory,
+    ...serviceOptions
   } = options;
 
   // Lazily create the real AuthService with resolved config
@@ -56,7 +109,13 @@ export function createAuthService<TRequest, TResponse>(options: {
     const storage = sessionStorageFactory(config);
     const client = clientFactory(config);
     const encryption = encryptionFactory(config);
-    return new AuthService(config, storage, client, encryption);
+    return new AuthService(config, storage, client, encryption, {
+      ...serviceOptions,
+      userLoader: userLoaderFactory?.(config, client),
+      refreshCoordinator: refreshCoordinatorFactory?.(config),
+      refreshResultCache: refreshResultCacheFactory?.(config),
+      jwksLoader: jwksLoaderFactory?.(config),
+    });
   });
 
   // Return proxy that lazily delegates to the real service
@@ -64,9 +123,9 @@ export function createAuthService<TRequest, TResponse>(options: {
   return {
     withAuth: request => getService().withAuth(request),
     getSession: request => getService().getSession(request),
-    saveSession: (response, sessionData) =>
-      getService().saveSession(response, sessionData),
-    clearSession: response => getService().clearSession(response),
+    saveSession: (response, sessionData, opts) =>
+      getService().saveSession(response, sessionData, opts),
+    clearSession: (response, opts) => getService().clearSession(response, opts),
     signOut: (sessionId, opts) => getService().signOut(sessionId, opts),
     switchOrganization: (session, organizationId) =>
       getService().switchOrganization(session, organizationId),
@@ -0,0 +1,63 @@
+import { runHook } from './hooks.js';
+
+function throwing(): void {
+  throw new Error('sync failure');
+}
+
+async function rejecting(): Promise<void> {
+  throw new Error('async failure');
+}
+
+describe('runHook', () => {
+  it('does nothing without a hook', async () => {
+    await expect(runHook(undefined, {}, 'await')).resolves.toBeUndefined();
+  });
+
+  it('waits for async hooks in await mode', async () => {
+    const calls: string[] = [];
+    const hook = async () => {
+      await new Promise(resolve => setTimeout(resolve, 5));
+      calls.push('hook');
+    };
+
+    await runHook(hook, {}, 'await');
+    calls.push('after');
+
+    expect(calls).toEqual(['hook', 'after']);
+  });
+
+  it('does not wait for async hooks in background mode', async () => {
+    let release!: () => void;
+    const hook = vi.fn(
+      () =>
+        new Promise<void>(resolve => {
+          release = resolve;
+        }),
+    );
+
+    await runHook(hook, { id: 1 }, 'background');
+
+    expect(hook).toHaveBeenCalledWith({ id: 1 });
+    release();
+  });
+
+  it.each(['await', 'background'] as const)(
+    'swallows hook failures in %s mode',
+    async execution => {
+      await expect(runHook(throwing, {}, execution)).resolves.toBeUndefined();
+      await expect(runHook(rejecting, {}, execution)).resolves.toBeUndefined();
+    },
+  );
+
+  it('reports hook failures to onFailure', async () => {
+    const onFailure = vi.fn();
+
+    await runHook(throwing, {}, 'await', onFailure);
+    await runHook(rejecting, {}, 'await', onFailure);
+
+    expect(onFailure.mock.calls).toEqual([
+      [new Error('sync failure')],
+      [new Error('async failure')],
+    ]);
+  });
+});
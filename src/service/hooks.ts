@@ -0,0 +1,91 @@
+import type { AuthenticationResponse, User } from '@workos-inc/node';
+import type { AuthKitError } from '../core/errors.js';
+import type { BaseTokenClaims, Session } from '../core/session/types.js';
+
+export interface SignInEvent {
+  authResponse: AuthenticationResponse;
+  /** The session that was saved for the user. */
+  session: Session;
+}
+
+export interface SessionRefreshedEvent {
+  user: User;
+  /** Claims of the replaced access token, or null if it couldn't be parsed. */
+  previousClaims: BaseTokenClaims | null;
+  claims: BaseTokenClaims;
+}
+
+export interface RefreshFailedEvent {
+  user: User;
+  error: AuthKitError;
+}
+
+export interface SignOutEvent {
+  sessionId: string;
+}
+
+export interface OrganizationSwitchedEvent {
+  user: User;
+  previousOrganizationId: string | undefined;
+  organizationId: string;
+  claims: BaseTokenClaims;
+}
+
+/**
+ * Callbacks fired when auth state changes, e.g. for audit logs or syncing
+ * users into an application database.
+ *
+ * Hooks may be async. Whether `AuthService` waits for them is set by
+ * `hookExecution`. A hook that throws or rejects never affects the auth flow.
+ */
+export interface AuthLifecycleHooks {
+  /** After `handleCallback` exchanged the code and saved the session. */
+  onSignIn?: (event: SignInEvent) => void | Promise<void>;
+  /**
+   * After the tokens were refreshed, by `withAuth`, `refreshSession` or
+   * `switchOrganization`.
+   */
+  onSessionRefreshed?: (event: SessionRefreshedEvent) => void | Promise<void>;
+  /**
+   * After the token refresh itself failed (a `TokenRefreshError`), by
+   * `withAuth` or `refreshSession`. Not fired when verifying or sealing fails.
+   */
+  onRefreshFailed?: (event: RefreshFailedEvent) => void | Promise<void>;
+  /** After `signOut` cleared the session. */
+  onSignOut?: (event: SignOutEvent) => void | Promise<void>;
+  /** After `switchOrganization` refreshed into the new organization. */
+  onOrganizationSwitched?: (
+    event: OrganizationSwitchedEvent,
+  ) => void | Promise<void>;
+}
+
+/**
+ * - `await`: the auth operation waits for the hook to settle. Use on
+ *   serverless runtimes that may freeze once the response is sent.
+ * - `background`: the hook is started and the operation continues.
+ */
+export type HookExecution = 'await' | 'background';
+
+/**
+ * Invoke a lifecycle hook. Its failures are passed to `onFailure` and never
+ * rethrown.
+ */
+export async function runHook<TEvent>(
+  hook: ((event: TEvent) => void | Promise<void>) | undefined,
+  event: TEvent,
+  execution: HookExecution,
+  onFailure: (error: unknown) => void = () => {},
+): Promise<void> {
+  if (!hook) return;
+
+  let settled: Promise<void>;
+  try {
+    settled = Promise.resolve(hook(event)).catch(onFailure);
+  } catch (error) {
+    onFailure(error);
+    return;
+  }
+  if (execution === 'await') {
+    await settled;
+  }
+}
@@ -1,4 +1,9 @@
-import { once, sanitizeReturnPathname } from './utils.js';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  once,
+  sanitizeReturnPathname,
+} from './utils.js';
 
 describe('utils', () => {
   describe('once', () => {
@@ -10,6 +15,20 @@ describe('utils', () => {
     });
   });
 
+  describe('base64UrlEncode / base64UrlDecode', () => {
+    it('round-trips arbitrary bytes', () => {
+      const bytes = new Uint8Array(256).map((_, i) => i);
+
+      expect(base64UrlDecode(base64UrlEncode(bytes))).toEqual(bytes);
+    });
+
+    it('emits the URL-safe alphabet without padding', () => {
+      const encoded = base64UrlEncode(new Uint8Array([0xfb, 0xff, 0xbf, 0x01]));
+
+      expect(encoded).toBe('-_-_AQ');
+    });
+  });
+
   describe('sanitizeReturnPathname (CWE-601 open-redirect protection)', () => {
     it.each([
       ['absolute URL to evil host', 'https://evil.com/steal'],
@@ -42,6 +42,34 @@ export function constantTimeEqual(a: Uint8Array, b: Uint8Array): boolean {
   return diff === 0;
 }
 
+/**
+ * Encode bytes as unpadded base64url (RFC 4648 §5).
+ *
+ * Runtime-portable (`btoa`, no `Buffer`). Output is safe in cookie values,
+ * URLs, and filenames without further escaping.
+ */
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decode unpadded base64url produced by {@link base64UrlEncode}.
+ *
+ * @throws Error if `input` is not valid base64url
+ */
+export function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
 /**
  * Normalize an untrusted return-path candidate (e.g. decoded from OAuth
  * state) to a same-origin relative URL. The returned value always begins